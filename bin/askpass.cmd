@@ -0,0 +1,3 @@
+@echo off
+set ELECTRON_RUN_AS_NODE=1
+"%LDF_ASKPASS_NODE%" "%LDF_ASKPASS_MAIN%" %*
@@ -0,0 +1,2 @@
+#!/bin/sh
+ELECTRON_RUN_AS_NODE="1" exec "$LDF_ASKPASS_NODE" "$LDF_ASKPASS_MAIN" "$@"
@@ -30,8 +30,27 @@
     function addRow(label, keyId){
       const row = document.createElement('div'); row.className = 'row';
       const icon = document.createElement('div'); icon.className = 'power';
-      const text = document.createElement('div'); text.textContent = label;
+      const text = document.createElement('div');
+      const labelEl = document.createElement('span'); labelEl.className = 'label'; labelEl.textContent = label; labelEl.title = 'Show details';
+      labelEl.addEventListener('click', () => {
+        const parts = keyId.split(':');
+        vscode.postMessage({ type: 'details', key: { envId: parts[0], kind: parts[1], id: parts[2] } });
+      });
+      const copyEl = document.createElement('span'); copyEl.className = 'copy'; copyEl.textContent = 'copy'; copyEl.title = 'Copy connection string';
+      copyEl.addEventListener('click', () => {
+        const parts = keyId.split(':');
+        vscode.postMessage({ type: 'copy', key: { envId: parts[0], kind: parts[1], id: parts[2] } });
+      });
+      const logLink = document.createElement('span'); logLink.className = 'copy'; logLink.textContent = 'log'; logLink.title = 'Show ssh/kubectl output';
+      logLink.addEventListener('click', () => {
+        const parts = keyId.split(':');
+        vscode.postMessage({ type: 'log', key: { envId: parts[0], kind: parts[1], id: parts[2] } });
+      });
+      const stateEl = document.createElement('span'); stateEl.className = 'state';
+      const statsEl = document.createElement('span'); statsEl.className = 'stats';
+      text.appendChild(labelEl); text.appendChild(copyEl); text.appendChild(logLink); text.appendChild(stateEl); text.appendChild(statsEl);
       const toggle = document.createElement('input'); toggle.type = 'checkbox'; toggle.className = 'toggle'; toggle.dataset.key = keyId;
+      toggle.stateEl = stateEl; toggle.statsEl = statsEl; toggle.labelEl = labelEl;
       toggle.addEventListener('click', (e) => {
         if (isBlocked(env, keyId)) {
           e.preventDefault(); e.stopPropagation();
@@ -50,12 +69,28 @@
 
     for (const t of env.sshTunnels) { const key = env.id + ':ssh:' + t.id; addRow(labelForKey(env, key), key); }
     for (const f of env.k8sForwards) { const key = env.id + ':k8s:' + f.id; addRow(labelForKey(env, key), key); }
+    for (const p of env.socksProxies || []) { const key = env.id + ':socks:' + p.id; addRow(labelForKey(env, key), key); }
+    for (const r of env.remoteForwards || []) { const key = env.id + ':remote:' + r.id; addRow(labelForKey(env, key), key); }
 
-    card.update = (running) => {
+    card.update = (running, reconnecting, stats, health, usage, failed) => {
       let anyOn = false;
       for (const input of rows){
         const k = input.dataset.key; const isOn = running.includes(k);
         input.checked = isOn; if (isOn) anyOn = true;
+        // auto/range ports are only known while running
+        const used = isOn && usage && usage.find(u => u.key === k);
+        input.labelEl.textContent = labelForKey(env, k, used ? used.port : undefined);
+        const rc = reconnecting && reconnecting.find(x => x.key === k);
+        const hc = isOn && !rc && health && health.find(x => x.key === k);
+        // last error from the forward's output, while reconnecting or after it gave up
+        const fl = !isOn && failed && failed.find(x => x.key === k);
+        if (rc) input.stateEl.textContent = rc.reason ? `reconnecting (attempt ${rc.attempt}): ${rc.reason}` : `reconnecting (attempt ${rc.attempt})`;
+        else if (fl) input.stateEl.textContent = `failed: ${fl.reason}`;
+        else input.stateEl.textContent = hc && !hc.ok ? `unhealthy: ${hc.detail}` : '';
+        input.stateEl.classList.toggle('unhealthy', !rc && (!!fl || (!!hc && !hc.ok)));
+        input.stateEl.title = rc ? (rc.reason || '') : fl ? fl.reason : hc ? hc.detail : '';
+        const st = isOn && stats && stats.find(x => x.key === k);
+        input.statsEl.textContent = st ? st.summary : '';
       }
       master.checked = anyOn;
     };
@@ -63,19 +98,62 @@
     return card;
   }
 
-  function render(envs, running, occupied, usage){
+  // Named sets of forwards across environments; a profile's toggle is on once all of its forwards are up
+  function profilesCard(profiles){
+    const card = document.createElement('div');
+    card.className = 'card';
+    const header = document.createElement('div');
+    header.className = 'header';
+    const title = document.createElement('div');
+    title.className = 'title';
+    title.textContent = 'Profiles';
+    header.appendChild(title);
+    card.appendChild(header);
+
+    const rows = new Map();
+    for (const p of profiles) {
+      const row = document.createElement('div'); row.className = 'row';
+      const icon = document.createElement('div'); icon.className = 'power';
+      const text = document.createElement('div');
+      const labelEl = document.createElement('span'); labelEl.textContent = p.name; labelEl.title = p.id;
+      const stateEl = document.createElement('span'); stateEl.className = 'state';
+      text.appendChild(labelEl); text.appendChild(stateEl);
+      const toggle = document.createElement('input'); toggle.type = 'checkbox'; toggle.className = 'toggle';
+      toggle.addEventListener('change', () => {
+        vscode.postMessage({ type: 'toggleProfile', id: p.id, start: toggle.checked });
+      });
+      row.appendChild(icon); row.appendChild(text); row.appendChild(toggle);
+      rows.set(p.id, { toggle, stateEl }); card.appendChild(row);
+    }
+
+    card.update = (list) => {
+      for (const p of list || []){
+        const r = rows.get(p.id);
+        if (!r) continue;
+        r.toggle.checked = p.up;
+        r.stateEl.textContent = p.state;
+        r.stateEl.classList.toggle('up', p.up);
+      }
+    };
+    return card;
+  }
+
+  function render(envs, running, occupied, usage, reconnecting, stats, health, failed, profiles){
     const grid = document.getElementById('grid');
     grid.innerHTML = '';
     const cards = [];
+    const profileCard = profiles && profiles.length ? profilesCard(profiles) : undefined;
+    if (profileCard) grid.appendChild(profileCard);
     for (const env of envs){ const c = envCard(env); grid.appendChild(c); cards.push({ env, card: c }); }
     if (logEl) { logEl.remove(); }
-    update(running, occupied, usage);
-    state = { envs, running, occupied, usage };
+    state = { envs, running, occupied, usage, reconnecting, stats, health, failed, profiles, external: state && state.external };
     window.state = state;
+    update(running, occupied, usage, reconnecting, stats, health, failed, profiles);
 
-    function update(r, occ, use){
+    function update(r, occ, use, rc, st, hc, fl, pr){
+      if (profileCard) profileCard.update(pr);
       for (const { env, card } of cards) {
-        card.update(r);
+        card.update(r, rc, st, hc, use, fl);
         // disable conflicting toggles
         const inputs = card.querySelectorAll('input.toggle');
         for (const input of inputs){
@@ -83,12 +161,13 @@
           if (!key) continue;
           const port = portForKey(env, key);
           const isRunning = r.includes(key);
-          const holder = use && use.find(u => u.port === port);
-          const blocked = !isRunning && !!holder;
+          const reason = isRunning ? '' : blockedReason(env, key);
+          const blocked = !!reason;
           if (blocked) input.classList.add('blocked'); else input.classList.remove('blocked');
           input.dataset.blocked = blocked ? '1' : '';
-          input.dataset.blockedReason = blocked ? (`Port ${port} in use by ${holder.key}`) : '';
-          input.title = input.dataset.blockedReason || '';
+          input.dataset.blockedReason = reason;
+          const others = isRunning || blocked ? [] : switchesFrom(env);
+          input.title = input.dataset.blockedReason || (others.length ? `Stops ${others.map(e => e.name).join(', ')} (exclusive group ${env.exclusiveGroup})` : '');
         }
       }
     }
@@ -97,10 +176,15 @@
 
   window.addEventListener('message', event => {
     const message = event.data;
-    if (message.type === 'init') { log('init received'); render(message.envs, message.running, message.occupied, message.usage); }
+    if (message.type === 'init') { log('init received'); render(message.envs, message.running, message.occupied, message.usage, message.reconnecting, message.stats, message.health, message.failed, message.profiles); }
+    if (message.type === 'ports') {
+      if (!state) return;
+      state.external = message.external; window.state = state;
+      if (render.update) render.update(state.running, state.occupied, state.usage, state.reconnecting, state.stats, state.health, state.failed, state.profiles);
+    }
     if (message.type === 'status') {
-      state.running = message.running; state.occupied = message.occupied; state.usage = message.usage; window.state = state;
-      if (render.update) render.update(state.running, state.occupied, state.usage);
+      state.running = message.running; state.occupied = message.occupied; state.usage = message.usage; state.reconnecting = message.reconnecting; state.stats = message.stats; state.health = message.health; state.failed = message.failed; state.profiles = message.profiles; window.state = state;
+      if (render.update) render.update(state.running, state.occupied, state.usage, state.reconnecting, state.stats, state.health, state.failed, state.profiles);
       try { if (window.__maybeCompleteStopAll) window.__maybeCompleteStopAll(); } catch {}
     }
   });
@@ -147,37 +231,83 @@
   vscode.postMessage({ type: 'ready' });
 })();
 
-function portForKey(env, key){
+function itemForKey(env, key){
   const [, kind, id] = key.split(':');
-  if (kind === 'ssh') { const t = env.sshTunnels.find(x => x.id === id); return t ? t.localPort : undefined; }
-  if (kind === 'k8s') { const f = env.k8sForwards.find(x => x.id === id); return f ? f.localPort : undefined; }
-  return undefined;
+  const list = kind === 'ssh' ? env.sshTunnels : kind === 'k8s' ? env.k8sForwards : kind === 'socks' ? env.socksProxies : kind === 'remote' ? env.remoteForwards : undefined;
+  return (list || []).find(x => x.id === id);
+}
+
+// Fixed localPort of a forward; auto/range ports can't conflict before they are picked. Remote forwards don't listen locally.
+function portForKey(env, key){
+  const [, kind] = key.split(':');
+  const item = kind === 'remote' ? undefined : itemForKey(env, key);
+  return item && typeof item.localPort === 'number' ? item.localPort : undefined;
+}
+
+// A running remote forward holding the same port on the same ssh host
+function remoteHolder(env, key){
+  const item = itemForKey(env, key);
+  if (!item || !window.state.running) return undefined;
+  return window.state.running.find(k => {
+    if (k === key || k.split(':')[1] !== 'remote') return false;
+    const other = window.state.envs.find(e => e.id === k.split(':')[0]);
+    const r = other && itemForKey(other, k);
+    return r && r.sshHost === item.sshHost && r.port === item.port && r.remotePort === item.remotePort;
+  });
+}
+
+// Other environments of env's exclusive group that have forwards running; starting env stops them
+function switchesFrom(env){
+  if (!env.exclusiveGroup || !window.state || !window.state.running) return [];
+  return window.state.envs.filter(e => e.id !== env.id && e.exclusiveGroup === env.exclusiveGroup && window.state.running.some(k => k.startsWith(e.id + ':')));
 }
 
 function isBlocked(env, key){ return !!blockedReason(env, key); }
 function blockedReason(env, key){
-  if (!window.state || !window.state.usage) return '';
+  if (!window.state) return '';
   const port = portForKey(env, key);
-  const holder = window.state.usage.find(u => u.port === port);
   const isRunning = window.state.running && window.state.running.includes(key);
-  if (!isRunning && holder) return `Port ${port} in use by ${holder.key}`;
+  if (isRunning) return '';
+  if (key.split(':')[1] === 'remote') {
+    const holder = remoteHolder(env, key);
+    const item = itemForKey(env, key);
+    return holder ? `Remote port ${item.remotePort} on ${item.sshHost} in use by ${holder}` : '';
+  }
+  if (port === undefined) return '';
+  // forwards of another environment in the same exclusive group are stopped on start instead
+  const holder = window.state.usage && window.state.usage.find(u => u.port === port);
+  if (holder && !switchesFrom(env).some(e => holder.key.startsWith(e.id + ':'))) return `Port ${port} in use by ${holder.key}`;
+  // listeners outside this extension, e.g. a local database
+  const external = window.state.external && window.state.external.find(x => x.port === port);
+  if (external) return `Port ${port} is held by ${external.holder}`;
   return '';
 }
 
 
-function labelForKey(env, key){
+function labelForKey(env, key, actualPort){
   const [, kind, id] = key.split(':');
   if (kind === 'ssh') {
     const t = env.sshTunnels.find(x => x.id === id);
     if (!t) return key;
     const base = (t.title || '').replace(/:\\d+$/, '');
-    return `${t.localPort}:${base}:${t.remotePort}`;
+    return `${actualPort || t.localPort}:${base}:${t.remotePort}`;
   }
   if (kind === 'k8s') {
     const f = env.k8sForwards.find(x => x.id === id);
     if (!f) return key;
     const base = (f.title || '').replace(/:\\d+$/, '');
-    return `${f.localPort}:${base}:${f.remotePort}`;
+    return `${actualPort || f.localPort}:${base}:${f.remotePort}`;
+  }
+  if (kind === 'socks') {
+    const p = itemForKey(env, key);
+    if (!p) return key;
+    return `${actualPort || p.localPort}:${p.title || p.id} (SOCKS)`;
+  }
+  if (kind === 'remote') {
+    const r = itemForKey(env, key);
+    if (!r) return key;
+    const base = (r.title || '').replace(/:\\d+$/, '');
+    return `${r.localPort}:${base}:${r.remotePort} (remote)`;
   }
   return key;
 }
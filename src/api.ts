@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { EnvironmentConfig, findForwardItem, forwardKeysOf } from './config';
+import { ForwardManager, describeStartReport } from './forwardManager';
+import { ensureForwards } from './ensure';
+
+// The API other extensions get from activate(). Its types are declared here rather than taken from the
+// config and manager modules, so they stay the same for a given version while those change:
+//   const api = (await vscode.extensions.getExtension(id)!.activate()).getApi(1);
+
+export type ForwardKind = 'ssh' | 'k8s' | 'socks' | 'remote';
+
+export type ForwardKey = { envId: string; kind: ForwardKind; id: string };
+
+export type ForwardStatus = 'stopped' | 'running' | 'unhealthy' | 'reconnecting' | 'failed';
+
+export type ForwardState = {
+  key: ForwardKey;
+  status: ForwardStatus;
+  // Port the forward listens on while running, also for auto/range ports; a fixed localPort while stopped.
+  // Remote forwards listen on the ssh host and have none.
+  localPort?: number;
+  // Why it is unhealthy, reconnecting or failed
+  detail?: string;
+};
+
+export type ForwardStateChange = {
+  key: ForwardKey;
+  previous: ForwardStatus;
+  current: ForwardState;
+};
+
+export type EnvironmentInfo = {
+  id: string;
+  name: string;
+  forwards: { key: ForwardKey; title: string }[];
+};
+
+export interface ForwarderApiV1 {
+  readonly version: 1;
+  getEnvironments(): EnvironmentInfo[];
+  // undefined when the config has no such forward
+  getForwardState(key: ForwardKey): ForwardState | undefined;
+  // Starts the forward after its dependencies; rejects when it or one of them fails to start
+  start(key: ForwardKey): Promise<ForwardState>;
+  stop(key: ForwardKey): Promise<void>;
+  // Starts whatever is not running yet and resolves once all of them accept connections
+  ensure(keys: ForwardKey[]): Promise<ForwardState[]>;
+  // Fires when a forward's status or local port changes
+  readonly onDidChangeForward: vscode.Event<ForwardStateChange>;
+}
+
+export type LocalDependencyForwarderExports = {
+  // Throws for versions this build doesn't provide
+  getApi(version: 1): ForwarderApiV1;
+};
+
+export class ForwarderApi implements ForwarderApiV1, vscode.Disposable {
+  public readonly version = 1;
+  private onDidChangeForwardEmitter = new vscode.EventEmitter<ForwardStateChange>();
+  public readonly onDidChangeForward = this.onDidChangeForwardEmitter.event;
+  private states = new Map<string, ForwardState>();
+  private subscriptions: vscode.Disposable[];
+
+  constructor(private manager: ForwardManager) {
+    for (const state of this.currentStates()) { this.states.set(keyId(state.key), state); }
+    this.subscriptions = [
+      this.onDidChangeForwardEmitter,
+      manager.onDidChange(() => this.publish()),
+      manager.onDidChangeEnvironments(() => this.publish())
+    ];
+  }
+
+  public getEnvironments(): EnvironmentInfo[] {
+    return this.manager.getEnvironments().map(env => ({
+      id: env.id,
+      name: env.name,
+      forwards: forwardKeysOf(env).map(key => ({ key: { ...key }, title: findForwardItem(env, key)?.title || key.id }))
+    }));
+  }
+
+  public getForwardState(key: ForwardKey): ForwardState | undefined {
+    const env = this.manager.getEnvironments().find(e => e.id === key?.envId);
+    return env && findForwardItem(env, key) ? this.stateOf(key) : undefined;
+  }
+
+  public async start(key: ForwardKey): Promise<ForwardState> {
+    this.check(key);
+    const problems = describeStartReport(await this.manager.startWithDependencies([{ ...key }]));
+    if (problems) { throw new Error(problems); }
+    return this.stateOf(key);
+  }
+
+  public async stop(key: ForwardKey): Promise<void> {
+    this.check(key);
+    await this.manager.stop({ ...key });
+  }
+
+  public async ensure(keys: ForwardKey[]): Promise<ForwardState[]> {
+    keys.forEach(key => this.check(key));
+    await ensureForwards(this.manager, keys.map(keyId));
+    return keys.map(key => this.stateOf(key));
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions) { d.dispose(); }
+  }
+
+  private check(key: ForwardKey) {
+    if (!this.getForwardState(key)) { throw new Error(`Unknown forward ${keyId(key)}`); }
+  }
+
+  private stateOf(key: ForwardKey): ForwardState {
+    const k = { envId: key.envId, kind: key.kind, id: key.id };
+    const { status, detail } = this.manager.getStatus(k);
+    return { key: k, status, localPort: this.manager.getLocalPort(k), ...detail !== undefined ? { detail } : {} };
+  }
+
+  private currentStates(): ForwardState[] {
+    return this.manager.getEnvironments().flatMap((env: EnvironmentConfig) => forwardKeysOf(env).map(key => this.stateOf(key)));
+  }
+
+  // Compares with the last published states; forwards removed from the config end as stopped
+  private publish() {
+    const next = new Map(this.currentStates().map(state => [keyId(state.key), state] as const));
+    for (const [id, previous] of this.states) {
+      if (!next.has(id) && previous.status !== 'stopped') {
+        this.onDidChangeForwardEmitter.fire({ key: previous.key, previous: previous.status, current: { key: previous.key, status: 'stopped' } });
+      }
+    }
+    for (const [id, current] of next) {
+      const previous = this.states.get(id);
+      if (previous?.status === current.status && previous.localPort === current.localPort) { continue; }
+      if (!previous && current.status === 'stopped') { continue; }
+      this.onDidChangeForwardEmitter.fire({ key: current.key, previous: previous?.status ?? 'stopped', current });
+    }
+    this.states = next;
+  }
+}
+
+// What activate() returns; each version maps to one API shape
+export function apiExports(api: ForwarderApi): LocalDependencyForwarderExports {
+  return {
+    getApi(version: number) {
+      if (version !== 1) { throw new Error(`Local Dependency Forwarder API version ${version} is not available; this version provides 1`); }
+      return api;
+    }
+  };
+}
+
+function keyId(key: ForwardKey): string {
+  return `${key.envId}:${key.kind}:${key.id}`;
+}
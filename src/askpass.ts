@@ -0,0 +1,180 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+
+// passphrase: a key file's passphrase, secret: passwords and PINs, code: one-time codes (shown while typed),
+// confirm: a yes/no question, notice: a message that needs no answer (e.g. touch your security key)
+export type AskpassPromptKind = 'passphrase' | 'secret' | 'code' | 'confirm' | 'notice';
+
+export type AskpassPrompt = {
+  kind: AskpassPromptKind;
+  // What ssh printed, e.g. "Enter passphrase for key '/home/me/.ssh/id_ed25519':"
+  text: string;
+  // Who is asking, e.g. dev:ssh:db or ssh-add ~/.ssh/id_ed25519
+  label: string;
+  keyFile?: string;
+};
+
+// Request the askpass client sends over the socket, one JSON line each way
+type AskRequest = { nonce: string; prompt: string; mode: string; label: string };
+
+// Paths of the shipped askpass client: a wrapper ssh can run, and the script it hands to node
+export type AskpassScripts = { wrapper: string; main: string };
+
+// Lets ssh and ssh-add ask for passwords, passphrases and one-time codes while they have no terminal:
+// SSH_ASKPASS points at a small client that relays each prompt to the extension over a private socket.
+// Passphrases can be remembered in SecretStorage; one that ssh-add rejects, or that was given to an ssh
+// denied by its server, is forgotten. Other forwards asking for the same key at the same time get it as well.
+export class AskpassBridge implements vscode.Disposable {
+  private server: net.Server;
+  private handle: string;
+  private nonce = crypto.randomBytes(16).toString('hex');
+  private queue: Promise<unknown> = Promise.resolve();
+  // Passphrases each asker (prompt label) was given, by their secret key
+  private answered = new Map<string, Set<string>>();
+
+  constructor(
+    private scripts: AskpassScripts,
+    private ask: (prompt: AskpassPrompt) => Promise<string | undefined>,
+    private secrets: Pick<vscode.SecretStorage, 'get' | 'store' | 'delete'>,
+    private remember: () => boolean,
+    private log: (line: string) => void
+  ) {
+    if (process.platform === 'win32') {
+      this.handle = `\\\\.\\pipe\\ldf-askpass-${crypto.randomBytes(8).toString('hex')}`;
+    } else {
+      const dir = path.join(os.tmpdir(), `ldf-${os.userInfo().uid}`);
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      this.handle = path.join(dir, `askpass-${process.pid}.sock`);
+      fs.rmSync(this.handle, { force: true });
+      // A packaged extension may lose the executable bit
+      try { fs.chmodSync(scripts.wrapper, 0o755); } catch {}
+    }
+    this.server = net.createServer(socket => this.serve(socket));
+    this.server.on('error', err => this.log(`Askpass: ${String(err)}`));
+    this.server.listen(this.handle);
+  }
+
+  // Variables for an ssh or ssh-add process so that its prompts reach VS Code
+  public env(label: string): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      SSH_ASKPASS: this.scripts.wrapper,
+      // OpenSSH 8.4+: use askpass even when a terminal is around; older versions need DISPLAY set instead
+      SSH_ASKPASS_REQUIRE: 'force',
+      DISPLAY: process.env.DISPLAY || ':0',
+      LDF_ASKPASS_NODE: process.execPath,
+      LDF_ASKPASS_MAIN: this.scripts.main,
+      LDF_ASKPASS_HANDLE: this.handle,
+      LDF_ASKPASS_NONCE: this.nonce,
+      LDF_ASKPASS_LABEL: label
+    };
+  }
+
+  // Drops what is remembered for these key files
+  public async forgetPassphrases(keyFiles: string[]): Promise<void> {
+    for (const file of keyFiles) { await this.secrets.delete(secretKey(file)); }
+  }
+
+  // ssh asking under this label was denied (Permission denied): a passphrase it was given may be wrong
+  public async rejected(label: string): Promise<void> {
+    const keys = this.answered.get(label);
+    if (!keys) { return; }
+    this.answered.delete(label);
+    for (const key of keys) {
+      this.log(`Askpass: ${label} was denied, forgetting the passphrase for ${key.slice(secretPrefix.length)}`);
+      await this.secrets.delete(key);
+    }
+  }
+
+  public dispose() {
+    this.server.close();
+    if (process.platform !== 'win32') { fs.rmSync(this.handle, { force: true }); }
+  }
+
+  private serve(socket: net.Socket) {
+    let data = '';
+    socket.setEncoding('utf8');
+    socket.on('data', chunk => {
+      data += chunk;
+      const end = data.indexOf('\n');
+      if (end < 0) { return; }
+      let request: AskRequest;
+      try { request = JSON.parse(data.slice(0, end)); } catch { socket.destroy(); return; }
+      if (request.nonce !== this.nonce) { socket.destroy(); return; }
+      // One prompt at a time, even when several forwards connect together
+      const answer = this.queue.then(() => this.answer(request));
+      this.queue = answer.catch(() => undefined);
+      answer.then(
+        value => socket.end(JSON.stringify({ answer: value }) + '\n'),
+        err => {
+          this.log(`Askpass: ${String(err?.message ?? err)}`);
+          socket.end(JSON.stringify({}) + '\n');
+        });
+    });
+    socket.on('error', () => socket.destroy());
+  }
+
+  // undefined makes the client exit non-zero, which ssh takes as cancelled (or "no" for a confirmation)
+  private async answer(request: AskRequest): Promise<string | undefined> {
+    const prompt = classify(request);
+    this.log(`Askpass: ${prompt.label} asks "${prompt.text}"`);
+    if (prompt.kind === 'confirm') {
+      const yes = await this.ask(prompt) !== undefined;
+      // SSH_ASKPASS_PROMPT=confirm goes by the exit code, other questions by the answer
+      if (request.mode === 'confirm') { return yes ? '' : undefined; }
+      return yes ? 'yes' : 'no';
+    }
+    if (prompt.kind === 'notice') {
+      void this.ask(prompt);
+      return '';
+    }
+    if (prompt.kind !== 'passphrase' || !prompt.keyFile) { return await this.ask(prompt); }
+
+    const key = secretKey(prompt.keyFile);
+    // ssh-add says so when it asks again; ssh only reports the denial once it gives up (see rejected)
+    if (prompt.text.startsWith('Bad passphrase')) {
+      this.log(`Askpass: passphrase for ${prompt.keyFile} was not accepted`);
+      await this.secrets.delete(key);
+    } else {
+      const stored = await this.secrets.get(key);
+      if (stored !== undefined) {
+        this.given(prompt.label, key);
+        return stored;
+      }
+    }
+    const value = await this.ask(prompt);
+    if (value === undefined) { return undefined; }
+    this.given(prompt.label, key);
+    if (this.remember()) { await this.secrets.store(key, value); }
+    return value;
+  }
+
+  private given(label: string, key: string) {
+    const keys = this.answered.get(label) ?? new Set<string>();
+    keys.add(key);
+    this.answered.set(label, keys);
+  }
+}
+
+const secretPrefix = 'ssh-passphrase:';
+
+function secretKey(keyFile: string): string {
+  return `${secretPrefix}${path.resolve(keyFile)}`;
+}
+
+// Tells OpenSSH's prompts apart by their wording
+function classify(request: AskRequest): AskpassPrompt {
+  const text = request.prompt.trim();
+  const base = { text, label: request.label };
+  if (request.mode === 'none') { return { ...base, kind: 'notice' }; }
+  if (request.mode === 'confirm' || /\(yes\/no(\/\[fingerprint\])?\)\??$/.test(text)) { return { ...base, kind: 'confirm' }; }
+  // ssh: Enter passphrase for key '/path':   ssh-add: Enter passphrase for /path (will confirm each use):
+  const passphrase = /^(?:Bad passphrase, try again for|Enter passphrase for)(?: key)? '?(.+?)'?(?: \(will confirm[^)]*\))?:$/.exec(text);
+  if (passphrase) { return { ...base, kind: 'passphrase', keyFile: passphrase[1] }; }
+  if (/code|otp|token/i.test(text) && !/password|passphrase|pin/i.test(text)) { return { ...base, kind: 'code' }; }
+  return { ...base, kind: 'secret' };
+}
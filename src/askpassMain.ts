@@ -0,0 +1,27 @@
+// The SSH_ASKPASS client, run by ssh through bin/askpass.sh: relays the prompt in argv to the extension
+// and prints the answer; exiting non-zero tells ssh the prompt was cancelled.
+import * as net from 'net';
+
+const env = process.env;
+const socket = net.connect(env.LDF_ASKPASS_HANDLE ?? '');
+let data = '';
+socket.setEncoding('utf8');
+socket.on('connect', () => {
+  socket.write(JSON.stringify({
+    nonce: env.LDF_ASKPASS_NONCE,
+    prompt: process.argv[2] ?? '',
+    mode: env.SSH_ASKPASS_PROMPT ?? '',
+    label: env.LDF_ASKPASS_LABEL ?? 'ssh'
+  }) + '\n');
+});
+socket.on('data', chunk => { data += chunk; });
+socket.on('error', err => {
+  process.stderr.write(`askpass: ${err.message}\n`);
+  process.exit(1);
+});
+socket.on('close', () => {
+  let answer: unknown;
+  try { answer = JSON.parse(data).answer; } catch {}
+  if (typeof answer !== 'string') { process.exit(1); }
+  process.stdout.write(answer + '\n');
+});
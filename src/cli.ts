@@ -0,0 +1,342 @@
+// ldf: runs forwards from the extension's config files without VS Code, e.g. in a terminal or CI job.
+// `ldf up` stays in the foreground; `ldf status` and `ldf down` find it through a state file per workspace.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { AskpassBridge, AskpassPrompt } from './askpass';
+import { EnvironmentConfig, ForwardKey, ProfileConfig, configFilePath, globalConfigPath, parseConfigFiles, resolveForwardTargets, resolveProfile } from './config';
+import { ForwardManager, ForwardStatus, describeStartReport } from './forwardManager';
+import { HostKeyPrompt, HostKeyVerifier } from './hostKeys';
+import { validateConfigFiles } from './validation';
+import { Logger } from './events';
+
+const usage = `Usage: ldf <command> [--workspace <dir>]
+
+  up <env|profile> [ids...]   Start an environment's forwards (or only the given ones) or a profile,
+                              stream their output and keep them up until Ctrl+C
+  status                      Show the forwards of the \`ldf up\` running for the workspace
+  down                        Stop the \`ldf up\` running for the workspace
+
+The workspace is the nearest directory up from the current one with ${configFilePath};
+its file is merged over the global one as in VS Code.
+
+Exit codes: 0 ok, 1 a forward failed or is not running, 2 usage or config error`;
+
+// Written by `ldf up` while it runs, removed when it stops
+type StateFile = {
+  pid: number;
+  workspace: string;
+  target: string;
+  startedAt: number;
+  forwards: { key: string; status: ForwardStatus; localPort?: number; detail?: string }[];
+};
+
+class UsageError extends Error {}
+
+function keyId(key: ForwardKey): string {
+  return `${key.envId}:${key.kind}:${key.id}`;
+}
+
+function findWorkspace(from: string): string {
+  const globalPath = globalConfigPath();
+  for (let dir = path.resolve(from); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, configFilePath);
+    if (candidate !== globalPath && fs.existsSync(candidate)) { return dir; }
+    if (path.dirname(dir) === dir) { return path.resolve(from); }
+  }
+}
+
+function stateFilePath(workspace: string): string {
+  const hash = crypto.createHash('sha1').update(workspace).digest('hex').slice(0, 12);
+  return path.join(os.tmpdir(), `ldf-${os.userInfo().uid}`, `cli-${hash}.json`);
+}
+
+function readText(file: string): string | undefined {
+  try { return fs.readFileSync(file, 'utf8'); } catch { return undefined; }
+}
+
+function lineAndColumn(text: string, offset: number): string {
+  const before = text.slice(0, offset).split('\n');
+  return `${before.length}:${before[before.length - 1].length + 1}`;
+}
+
+// Same files and merge as the extension; problems are printed as file:line:col like a compiler's
+function loadConfig(workspace: string): { envs: EnvironmentConfig[]; profiles: ProfileConfig[]; errors: number } {
+  const files = [globalConfigPath(), path.join(workspace, configFilePath)];
+  const texts = files.map(readText);
+  const context = { workspaceFolder: workspace, userHome: os.homedir(), env: process.env };
+  let errors = 0;
+  validateConfigFiles(texts, context).forEach((problems, i) => {
+    for (const p of problems) {
+      if (p.severity === 'error') { errors++; }
+      console.error(`${files[i]}:${lineAndColumn(texts[i] ?? '', p.offset)}: ${p.severity}: ${p.message}`);
+    }
+  });
+  const { envs, profiles } = parseConfigFiles(texts.map(text => text === undefined ? undefined : Buffer.from(text, 'utf8')), context);
+  return { envs, profiles, errors };
+}
+
+// One prompt on the terminal at a time; undefined without a terminal (e.g. in CI) or when cancelled with Ctrl+C
+let promptQueue: Promise<unknown> = Promise.resolve();
+function promptTerminal(question: string, hidden = false): Promise<string | undefined> {
+  const asked = promptQueue.then(() => new Promise<string | undefined>(resolve => {
+    if (!process.stdin.isTTY) {
+      resolve(undefined);
+      return;
+    }
+    // Passwords and passphrases aren't echoed
+    const output = hidden ? new Writable({ write: (_chunk, _encoding, callback) => callback() }) : process.stderr;
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    let answer: string | undefined;
+    rl.on('SIGINT', () => rl.close());
+    rl.on('close', () => {
+      if (hidden) { process.stderr.write('\n'); }
+      resolve(answer);
+    });
+    // readline redraws the line it prompts on, so only a muted one needs the question written beforehand
+    if (hidden) { process.stderr.write(`${question} `); }
+    rl.question(hidden ? '' : `${question} `, line => {
+      answer = line;
+      rl.close();
+    });
+  }));
+  promptQueue = asked.catch(() => undefined);
+  return asked;
+}
+
+async function confirmHostKey(prompt: HostKeyPrompt): Promise<boolean> {
+  console.error(prompt.reason === 'changed'
+    ? `ldf: the host key of ${prompt.host} has CHANGED. This can mean someone is intercepting the connection, or the server was reinstalled. New fingerprints:`
+    : `ldf: ${prompt.host} is not a known host. Verify its fingerprints before trusting it:`);
+  for (const f of prompt.fingerprints) { console.error(`  ${f}`); }
+  const answer = await promptTerminal(prompt.reason === 'changed' ? 'Replace the recorded key? [y/N]' : 'Trust and connect? [y/N]');
+  return /^y(es)?$/i.test(answer?.trim() ?? '');
+}
+
+// ssh prompts relayed by the askpass bridge; undefined means cancelled (or "no")
+async function askSsh(prompt: AskpassPrompt): Promise<string | undefined> {
+  if (prompt.kind === 'notice') {
+    console.error(`ldf: ${prompt.label}: ${prompt.text}`);
+    return '';
+  }
+  if (prompt.kind === 'confirm') {
+    const answer = await promptTerminal(`${prompt.label}: ${prompt.text} [y/N]`);
+    return /^y(es)?$/i.test(answer?.trim() ?? '') ? 'yes' : undefined;
+  }
+  return await promptTerminal(`${prompt.label}: ${prompt.text}`, prompt.kind !== 'code');
+}
+
+// Passphrases are remembered while `ldf up` runs, so restarts don't ask again
+function memorySecrets() {
+  const secrets = new Map<string, string>();
+  return {
+    get: async (key: string) => secrets.get(key),
+    store: async (key: string, value: string) => { secrets.set(key, value); },
+    delete: async (key: string) => { secrets.delete(key); }
+  };
+}
+
+// `up dev` is the whole environment, `up dev db redis` some of its forwards, `up backend` a profile
+function resolveTarget(envs: EnvironmentConfig[], profiles: ProfileConfig[], target: string, ids: string[]): ForwardKey[] {
+  if (envs.some(e => e.id === target)) {
+    return resolveForwardTargets(envs, ids.length ? ids.map(id => `${target}/${id}`) : [target]);
+  }
+  const profile = profiles.find(p => p.id === target);
+  if (!profile) { throw new UsageError(`Unknown environment or profile '${target}'`); }
+  if (ids.length) { throw new UsageError(`'${target}' is a profile; forward ids only apply to environments`); }
+  const { keys, unknown } = resolveProfile(envs, profile);
+  for (const ref of unknown) { console.error(`ldf: warning: profile ${target} names unknown forward '${ref}'`); }
+  return keys;
+}
+
+function readState(workspace: string): StateFile | undefined {
+  const file = stateFilePath(workspace);
+  const text = readText(file);
+  if (text === undefined) { return undefined; }
+  let state: StateFile;
+  try { state = JSON.parse(text); } catch { return undefined; }
+  // Left behind by an `ldf up` that was killed
+  if (!isAlive(state.pid)) {
+    try { fs.unlinkSync(file); } catch {}
+    return undefined;
+  }
+  return state;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// ssh/kubectl output arrives in chunks; each complete line is printed with the forward it came from
+function streamLogs(manager: ForwardManager): () => void {
+  const partial = new Map<string, string>();
+  manager.onDidLog(({ key, text }) => {
+    const id = keyId(key);
+    const lines = ((partial.get(id) ?? '') + text).split(/\r?\n/);
+    partial.set(id, lines.pop() ?? '');
+    for (const line of lines) { console.log(`[${id}] ${line}`); }
+  });
+  return () => {
+    for (const [id, rest] of partial) {
+      if (rest) { console.log(`[${id}] ${rest}`); }
+    }
+    partial.clear();
+  };
+}
+
+async function up(workspace: string, args: string[]): Promise<number> {
+  const [target, ...ids] = args;
+  if (!target) { throw new UsageError('up needs an environment or profile'); }
+  const { envs, profiles, errors } = loadConfig(workspace);
+  if (errors) { return 2; }
+  const keys = resolveTarget(envs, profiles, target, ids);
+  if (!keys.length) { throw new UsageError(`'${target}' has no forwards`); }
+  const running = readState(workspace);
+  if (running) {
+    console.error(`ldf: ${running.target} is already up for ${workspace} (pid ${running.pid}); run \`ldf down\` first`);
+    return 2;
+  }
+
+  const output: Logger = { append: () => {}, appendLine: line => console.log(line) };
+  // Host keys and ssh prompts are asked about on the terminal; trusted keys go to the user's known_hosts as with plain ssh
+  const hostKeys = new HostKeyVerifier(path.join(os.homedir(), '.ssh', 'known_hosts'), confirmHostKey, line => output.appendLine(line));
+  // The bundle runs from dist/, next to askpass.js; the wrappers are in bin/
+  const scripts = { wrapper: path.join(__dirname, '..', 'bin', process.platform === 'win32' ? 'askpass.cmd' : 'askpass.sh'), main: path.join(__dirname, 'askpass.js') };
+  const askpass = new AskpassBridge(scripts, askSsh, memorySecrets(), () => true, line => output.appendLine(line));
+  const manager = new ForwardManager(envs, { output, hostKeys, askpass, profiles });
+  const flushLogs = streamLogs(manager);
+  const stateFile = stateFilePath(workspace);
+  const startedAt = Date.now();
+  let watched: ForwardKey[] = [];
+  const writeState = () => {
+    const state: StateFile = {
+      pid: process.pid,
+      workspace,
+      target: [target, ...ids].join(' '),
+      startedAt,
+      forwards: keys.map(key => ({ key: keyId(key), ...manager.getStatus(key), localPort: manager.getLocalPort(key) }))
+    };
+    fs.mkdirSync(path.dirname(stateFile), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+  };
+
+  let healthTimer: NodeJS.Timeout | undefined;
+  let stopping = false;
+  let exiting: Promise<number> | undefined;
+  const shutdown = (code: number) => exiting ??= (async () => {
+    // stopAll() fires change events right away; they must not be taken for failures
+    stopping = true;
+    if (healthTimer) { clearInterval(healthTimer); }
+    await manager.stopAll();
+    askpass.dispose();
+    flushLogs();
+    try { fs.unlinkSync(stateFile); } catch {}
+    return code;
+  })();
+  const done = new Promise<number>(resolve => {
+    const stop = () => { void shutdown(0).then(resolve); };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+    // Once up, a forward that ends for good ends the run; reconnecting ones get their retries first
+    manager.onDidChange(() => {
+      if (stopping) { return; }
+      writeState();
+      for (const key of watched) {
+        const { status, detail } = manager.getStatus(key);
+        if (status !== 'failed' && status !== 'stopped') { continue; }
+        console.error(`ldf: ${keyId(key)} ${status === 'failed' ? 'failed' : 'stopped'}${detail ? `: ${detail}` : ''}`);
+        void shutdown(1).then(resolve);
+        return;
+      }
+    });
+  });
+
+  writeState();
+  const report = await manager.startWithDependencies(keys);
+  if (exiting) { return exiting; }
+  const problems = describeStartReport(report);
+  if (problems) {
+    console.error(`ldf: ${problems}`);
+    return shutdown(1);
+  }
+  watched = report.started;
+  writeState();
+  for (const key of report.started) {
+    const port = manager.getLocalPort(key);
+    console.log(`ldf: ${keyId(key)} up${port !== undefined ? ` on 127.0.0.1:${port}` : ''}`);
+  }
+  console.log('ldf: all forwards up; press Ctrl+C to stop them');
+  healthTimer = setInterval(async () => { try { await manager.healthCheck(); } catch {} }, 3000);
+  return done;
+}
+
+function status(workspace: string): number {
+  const state = readState(workspace);
+  if (!state) {
+    console.log(`Nothing is up for ${workspace}`);
+    return 1;
+  }
+  console.log(`${state.target} (pid ${state.pid}, since ${new Date(state.startedAt).toLocaleString()})`);
+  const width = Math.max(...state.forwards.map(f => f.key.length));
+  for (const f of state.forwards) {
+    const port = f.localPort !== undefined ? `127.0.0.1:${f.localPort}` : '';
+    console.log(`  ${f.key.padEnd(width)}  ${f.status.padEnd(12)}  ${[port, f.detail].filter(Boolean).join('  ')}`);
+  }
+  return state.forwards.every(f => f.status === 'running') ? 0 : 1;
+}
+
+async function down(workspace: string): Promise<number> {
+  const state = readState(workspace);
+  if (!state) {
+    console.log(`Nothing is up for ${workspace}`);
+    return 0;
+  }
+  process.kill(state.pid, 'SIGTERM');
+  const deadline = Date.now() + 10000;
+  while (isAlive(state.pid)) {
+    if (Date.now() >= deadline) {
+      console.error(`ldf: pid ${state.pid} did not stop within 10s`);
+      return 1;
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  console.log(`Stopped ${state.target}`);
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = [...argv];
+  let workspace: string | undefined;
+  const at = args.indexOf('--workspace');
+  if (at >= 0) {
+    workspace = args[at + 1];
+    if (!workspace) { throw new UsageError('--workspace needs a directory'); }
+    args.splice(at, 2);
+  }
+  const [command, ...rest] = args;
+  if (!command || command === '-h' || command === '--help' || command === 'help') {
+    console.log(usage);
+    return command ? 0 : 2;
+  }
+  const dir = workspace ? path.resolve(workspace) : findWorkspace(process.cwd());
+  switch (command) {
+    case 'up': return up(dir, rest);
+    case 'status': return status(dir);
+    case 'down': return down(dir);
+    default: throw new UsageError(`Unknown command '${command}'`);
+  }
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code), (e: unknown) => {
+  console.error(`ldf: ${e instanceof Error ? e.message : String(e)}`);
+  if (e instanceof UsageError) { console.error(usage); }
+  process.exit(2);
+});
@@ -1,19 +1,127 @@
-export type SshTunnel = {
+export type RestartPolicy = {
+  // never: leave it stopped, on-failure: respawn after a non-zero exit or failed health checks, always: respawn on any exit
+  mode: 'never' | 'on-failure' | 'always';
+  maxRetries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export type Readiness = {
+  // How long the forward's port may take to accept connections before it counts as failed
+  timeoutMs?: number;
+};
+
+// Protocol-aware health check run through the forward; tcp only checks that the port accepts connections
+export type Probe =
+  | { type: 'tcp'; timeoutMs?: number }
+  | { type: 'banner'; expect?: string; timeoutMs?: number }
+  | { type: 'mysql'; timeoutMs?: number }
+  | { type: 'redis'; timeoutMs?: number }
+  | { type: 'amqp'; timeoutMs?: number }
+  | { type: 'http'; path?: string; expectStatus?: number; host?: string; timeoutMs?: number };
+
+export type ProbeType = Probe['type'];
+
+// strict: only known keys (unknown ones are confirmed by the user first), accept-new: record unknown keys, off: no checking
+export type HostKeyPolicy = 'strict' | 'accept-new' | 'off';
+
+// A fixed port, "auto" (any free port) or an inclusive range such as "20000-20100", picked at start time
+export type LocalPort = number | string;
+
+// How to reach the ssh host; shared by tunnels, SOCKS proxies and remote forwards
+export type SshConnection = {
+  sshHost: string;
+  // Optional connection settings, so nothing has to live in ~/.ssh/config
+  user?: string;
+  port?: number;
+  identityFile?: string;
+  // Jump hosts in order, passed as -J
+  proxyJump?: string[];
+  // Extra -o options, merged over the defaults (names are case-insensitive like in ssh)
+  sshOptions?: Record<string, string | number | boolean>;
+  // Share one connection with other forwards using the same connection settings; defaults to the environment's setting
+  multiplex?: boolean;
+};
+
+export type SshTunnel = SshConnection & {
   id: string;
   title: string;
-  localPort: number;
+  localPort: LocalPort;
+  // Use a free port instead of failing when a fixed localPort is taken
+  portFallback?: boolean;
   remoteHost: string;
   remotePort: number;
-  sshHost: string;
+  // Address localPort is bound on, e.g. 0.0.0.0 so Docker containers can reach it
+  bindAddress?: string;
+  restart?: RestartPolicy;
+  // Keep localPort bound by the extension and forward through an internal port, so it survives restarts
+  proxy?: boolean;
+  // Ids of forwards in the same environment that must be ready first; `ssh:`, `k8s:`, `socks:` or `remote:` prefixes disambiguate
+  dependsOn?: string[];
+  readiness?: Readiness;
+  probe?: Probe;
+  // Env var templates such as DATABASE_URL: mysql://127.0.0.1:${localPort}/app, exported while the forward runs
+  env?: Record<string, string>;
 };
 
+export type K8sTargetKind = 'service' | 'deployment' | 'statefulset' | 'pod' | 'selector';
+
 export type K8sForward = {
   id: string;
   title: string;
   namespace: string;
-  serviceName: string;
-  localPort: number;
+  // What to forward to; defaults to service
+  targetKind?: K8sTargetKind;
+  // Service name, kept for the default service kind
+  serviceName?: string;
+  // Name of the deployment/statefulset/pod (or service)
+  target?: string;
+  // Label selector such as app=web,tier=api; a ready pod is picked at start time
+  selector?: string;
+  localPort: LocalPort;
+  portFallback?: boolean;
+  // Numeric port or a named port such as http
+  remotePort: number | string;
+  // Optional: override the environment's kubectlContext / the default kubeconfig
+  kubectlContext?: string;
+  kubeconfig?: string;
+  restart?: RestartPolicy;
+  proxy?: boolean;
+  dependsOn?: string[];
+  readiness?: Readiness;
+  probe?: Probe;
+  env?: Record<string, string>;
+};
+
+// ssh -D: a SOCKS proxy on localPort reaching whatever the ssh host can, for browsers and tools
+export type SocksProxy = SshConnection & {
+  id: string;
+  title: string;
+  localPort: LocalPort;
+  portFallback?: boolean;
+  bindAddress?: string;
+  restart?: RestartPolicy;
+  proxy?: boolean;
+  dependsOn?: string[];
+  readiness?: Readiness;
+  probe?: Probe;
+  env?: Record<string, string>;
+};
+
+// ssh -R: remotePort on the ssh host reaches localHost:localPort here, e.g. a dev server receiving webhook callbacks
+export type RemoteForward = SshConnection & {
+  id: string;
+  title: string;
   remotePort: number;
+  // Address remotePort is bound on at the ssh host; anything but loopback needs GatewayPorts on the server
+  remoteBindAddress?: string;
+  // The local service; nothing listens locally, so there is no proxy mode or port picking
+  localHost?: string;
+  localPort: number;
+  restart?: RestartPolicy;
+  dependsOn?: string[];
+  readiness?: Readiness;
+  env?: Record<string, string>;
 };
 
 export type EnvironmentConfig = {
@@ -22,49 +130,187 @@ export type EnvironmentConfig = {
   kubectlContext?: string;
   // Optional: ssh key files to add to agent before starting forwards
   sshAddKeys?: string[];
+  // Optional: how ssh tunnels check host keys; defaults to strict
+  hostKeyPolicy?: HostKeyPolicy;
+  // Optional: default restart policy for forwards that don't declare their own
+  restart?: RestartPolicy;
+  // Optional: default proxy mode for forwards that don't set their own
+  proxy?: boolean;
+  // Optional: default portFallback for forwards that don't set their own
+  portFallback?: boolean;
+  // Optional: default multiplex for ssh forwards; off unless set (Windows' ssh has no ControlMaster)
+  multiplex?: boolean;
+  // Optional: environments with the same group run one at a time and may reuse localPorts; starting one stops the others
+  exclusiveGroup?: string;
   sshTunnels: SshTunnel[];
   k8sForwards: K8sForward[];
+  socksProxies?: SocksProxy[];
+  remoteForwards?: RemoteForward[];
 };
 
-export type ForwardKey = { envId: string; kind: 'ssh' | 'k8s'; id: string };
+// A named set of forwards across environments, e.g. everything one feature needs
+export type ProfileConfig = {
+  id: string;
+  name?: string;
+  // Same references as ensure: `env`, `env/id`, `env/kind:id` or `env:kind:id`
+  forwards: string[];
+};
+
+export type ForwardKind = 'ssh' | 'k8s' | 'socks' | 'remote';
+
+export type ForwardItem = SshTunnel | K8sForward | SocksProxy | RemoteForward;
+
+export type ForwardKey = { envId: string; kind: ForwardKind; id: string };
+
+// Config list holding each kind, in display order
+export const forwardLists = {
+  ssh: 'sshTunnels',
+  k8s: 'k8sForwards',
+  socks: 'socksProxies',
+  remote: 'remoteForwards'
+} as const;
+
+export const forwardKinds = Object.keys(forwardLists) as ForwardKind[];
 
-import * as vscode from 'vscode';
 import * as os from 'os';
 import * as path from 'path';
+import { ResolveContext, ResolveProblem, resolveEnvironments } from './configResolver';
+
+const k8sResourcePrefix: Record<Exclude<K8sTargetKind, 'selector'>, string> = {
+  service: 'services',
+  deployment: 'deployments',
+  statefulset: 'statefulsets',
+  pod: 'pods'
+};
 
-export function getWorkspaceConfigUri(): vscode.Uri | undefined {
-  const folder = vscode.workspace.workspaceFolders?.[0];
-  if (!folder) return undefined;
-  return vscode.Uri.joinPath(folder.uri, '.vscode/local-dependency-forwarder.json');
+// kubectl resource reference for port-forward, e.g. services/api; selector forwards resolve a pod at start time instead
+export function k8sTargetRef(f: K8sForward): string {
+  const kind = f.targetKind ?? 'service';
+  if (kind === 'selector') { return `pods -l ${f.selector ?? ''}`; }
+  return `${k8sResourcePrefix[kind]}/${f.target ?? f.serviceName ?? ''}`;
 }
 
-export function getGlobalConfigUri(): vscode.Uri {
-  const p = path.join(os.homedir(), '.vscode', 'local-dependency-forwarder.json');
-  return vscode.Uri.file(p);
+// Short human-readable target, e.g. ns/svc or ns/deploy/api
+export function k8sTargetLabel(f: K8sForward): string {
+  const kind = f.targetKind ?? 'service';
+  if (kind === 'service') { return `${f.namespace}/${f.target ?? f.serviceName ?? ''}`; }
+  if (kind === 'selector') { return `${f.namespace}/[${f.selector ?? ''}]`; }
+  return `${f.namespace}/${kind}/${f.target ?? ''}`;
 }
 
-function parseJsonOrEmpty<T>(buf: Uint8Array | undefined): T | undefined {
-  if (!buf) return undefined;
-  try { return JSON.parse(Buffer.from(buf).toString('utf8')) as T; } catch { return undefined; }
+// Forwards of one kind; the SOCKS and remote lists are optional in the config
+export function forwardsOf(env: EnvironmentConfig, kind: ForwardKind): ForwardItem[] {
+  return env[forwardLists[kind]] ?? [];
 }
 
-function mergeEnvs(globalEnvs: EnvironmentConfig[] | undefined, workspaceEnvs: EnvironmentConfig[] | undefined): EnvironmentConfig[] {
-  const map = new Map<string, EnvironmentConfig>();
-  for (const list of [globalEnvs || [], workspaceEnvs || []]) {
-    for (const env of list) map.set(env.id, env);
+export function findForwardItem(env: EnvironmentConfig | undefined, key: ForwardKey): ForwardItem | undefined {
+  return env ? forwardsOf(env, key.kind).find(f => f.id === key.id) : undefined;
+}
+
+// Keys of all forwards of an environment, in display order
+export function forwardKeysOf(env: EnvironmentConfig): ForwardKey[] {
+  return forwardKinds.flatMap(kind => forwardsOf(env, kind).map(f => ({ envId: env.id, kind, id: f.id })));
+}
+
+// Resolve a dependsOn entry (`id` or `kind:id`, e.g. `k8s:api`) within an environment
+export function resolveForwardRef(env: EnvironmentConfig, ref: string): ForwardKey | undefined {
+  const m = /^(ssh|k8s|socks|remote):(.*)$/.exec(ref);
+  const id = m ? m[2] : ref;
+  for (const kind of forwardKinds) {
+    if ((!m || m[1] === kind) && forwardsOf(env, kind).some(f => f.id === id)) { return { envId: env.id, kind, id }; }
   }
-  return Array.from(map.values());
+  return undefined;
 }
 
-export async function loadConfig(): Promise<{ envs: EnvironmentConfig[]; workspacePath?: vscode.Uri; globalPath?: vscode.Uri }> {
-  const wUri = getWorkspaceConfigUri();
-  const gUri = getGlobalConfigUri();
-  let wEnvs: EnvironmentConfig[] | undefined;
-  let gEnvs: EnvironmentConfig[] | undefined;
-  try { if (wUri) { const buf = await vscode.workspace.fs.readFile(wUri); wEnvs = parseJsonOrEmpty<EnvironmentConfig[]>(buf); } } catch {}
-  try { const buf = await vscode.workspace.fs.readFile(gUri); gEnvs = parseJsonOrEmpty<EnvironmentConfig[]>(buf); } catch {}
-  const envs = mergeEnvs(gEnvs, wEnvs);
-  return { envs, workspacePath: wUri, globalPath: gUri };
+// Ports a localPort value allows; 'auto' for any free port, undefined when the value is invalid
+export function parseLocalPort(value: LocalPort): { from: number; to: number } | 'auto' | undefined {
+  if (typeof value === 'number') { return Number.isInteger(value) && value >= 1 && value <= 65535 ? { from: value, to: value } : undefined; }
+  if (value === 'auto') { return 'auto'; }
+  const m = /^(\d+)-(\d+)$/.exec(value);
+  if (!m) { return undefined; }
+  const from = Number(m[1]);
+  const to = Number(m[2]);
+  return from >= 1 && to <= 65535 && from <= to ? { from, to } : undefined;
+}
+
+// Resolve references used by ensure/launch configs: `env` (all its forwards), `env/id` (`env/kind:id`) or `env:kind:id`
+export function resolveForwardTargets(envs: EnvironmentConfig[], refs: string[]): ForwardKey[] {
+  const keys: ForwardKey[] = [];
+  for (const ref of refs) {
+    const keyForm = /^([^/:]+):(ssh|k8s|socks|remote):(.+)$/.exec(ref);
+    const slash = ref.indexOf('/');
+    const envId = keyForm ? keyForm[1] : slash >= 0 ? ref.slice(0, slash) : ref;
+    const env = envs.find(e => e.id === envId);
+    if (!env) { throw new Error(`Unknown environment '${envId}' in '${ref}'`); }
+    if (!keyForm && slash < 0) {
+      keys.push(...forwardKeysOf(env));
+      continue;
+    }
+    const key = resolveForwardRef(env, keyForm ? `${keyForm[2]}:${keyForm[3]}` : ref.slice(slash + 1));
+    if (!key) { throw new Error(`Unknown forward '${ref}'`); }
+    keys.push(key);
+  }
+  return keys;
+}
+
+// Forwards of a profile; references that match nothing are returned separately instead of failing the rest
+export function resolveProfile(envs: EnvironmentConfig[], profile: ProfileConfig): { keys: ForwardKey[]; unknown: string[] } {
+  const keys: ForwardKey[] = [];
+  const unknown: string[] = [];
+  for (const ref of profile.forwards) {
+    let resolved: ForwardKey[];
+    try { resolved = resolveForwardTargets(envs, [ref]); } catch { unknown.push(ref); continue; }
+    for (const key of resolved) {
+      if (!keys.some(k => k.envId === key.envId && k.kind === key.kind && k.id === key.id)) { keys.push(key); }
+    }
+  }
+  return { keys, unknown };
+}
+
+// A config file is an array of environments, or an object that also holds profiles
+export function configSections(value: unknown): { environments: unknown; profiles: unknown } {
+  if (Array.isArray(value)) { return { environments: value, profiles: undefined }; }
+  if (typeof value !== 'object' || value === null) { return { environments: undefined, profiles: undefined }; }
+  const { environments, profiles } = value as Record<string, unknown>;
+  return { environments, profiles };
+}
+
+// Profiles from all files, base file first; a later profile with the same id replaces the earlier one
+export function mergeProfiles(files: unknown[]): ProfileConfig[] {
+  const profiles = new Map<string, ProfileConfig>();
+  for (const file of files) {
+    if (!Array.isArray(file)) { continue; }
+    for (const p of file) {
+      if (typeof p !== 'object' || p === null || typeof p.id !== 'string' || !Array.isArray(p.forwards)) { continue; }
+      profiles.set(p.id, { id: p.id, name: typeof p.name === 'string' ? p.name : undefined, forwards: p.forwards.filter((f: unknown): f is string => typeof f === 'string') });
+    }
+  }
+  return [...profiles.values()];
+}
+
+export function expandHome(p: string): string {
+  if (p && p.startsWith('~')) { return path.join(os.homedir(), p.slice(1)); }
+  return p;
+}
+
+// Relative to a workspace folder, or to the home directory for the global file
+export const configFilePath = '.vscode/local-dependency-forwarder.json';
+
+export function globalConfigPath(): string {
+  return path.join(os.homedir(), configFilePath);
+}
+
+function parseJsonOrEmpty(buf: Uint8Array | undefined): unknown {
+  if (!buf) return undefined;
+  try { return JSON.parse(Buffer.from(buf).toString('utf8')); } catch { return undefined; }
+}
+
+// The contents of the config files, global first: workspace environments with the same id are merged over the global ones.
+// Unreadable or missing files count as empty.
+export function parseConfigFiles(contents: (Uint8Array | undefined)[], context: ResolveContext): { envs: EnvironmentConfig[]; profiles: ProfileConfig[]; problems: ResolveProblem[] } {
+  const files = contents.map(buf => configSections(parseJsonOrEmpty(buf)));
+  const { envs, problems } = resolveEnvironments(files.map(f => f.environments), context);
+  return { envs, profiles: mergeProfiles(files.map(f => f.profiles)), problems };
 }
 
 export function sampleConfig(): EnvironmentConfig[] {
@@ -86,14 +332,3 @@ export function sampleConfig(): EnvironmentConfig[] {
     }
   ];
 }
-
-export async function writeSampleConfig(target: 'workspace' | 'global'): Promise<vscode.Uri | undefined> {
-  const uri = target === 'workspace' ? getWorkspaceConfigUri() : getGlobalConfigUri();
-  if (!uri) return undefined;
-  const dir = vscode.Uri.file(path.dirname(uri.fsPath));
-  await vscode.workspace.fs.createDirectory(dir);
-  const content = Buffer.from(JSON.stringify(sampleConfig(), null, 2), 'utf8');
-  await vscode.workspace.fs.writeFile(uri, content);
-  return uri;
-}
-
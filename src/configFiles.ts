@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvironmentConfig, ProfileConfig, configFilePath, globalConfigPath, parseConfigFiles, sampleConfig } from './config';
+import { ResolveContext } from './configResolver';
+
+// The config files as seen from VS Code: the first workspace folder's and the global one
+
+export function getWorkspaceConfigUri(): vscode.Uri | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) { return undefined; }
+  return vscode.Uri.joinPath(folder.uri, configFilePath);
+}
+
+export function getGlobalConfigUri(): vscode.Uri {
+  return vscode.Uri.file(globalConfigPath());
+}
+
+// Fires on create/change/delete of either config file
+export function watchConfigFiles(listener: () => void): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+  const watch = (pattern: vscode.GlobPattern) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    disposables.push(watcher, watcher.onDidCreate(listener), watcher.onDidChange(listener), watcher.onDidDelete(listener));
+  };
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (folder) { watch(new vscode.RelativePattern(folder, configFilePath)); }
+  const g = getGlobalConfigUri();
+  watch(new vscode.RelativePattern(vscode.Uri.file(path.dirname(g.fsPath)), path.basename(g.fsPath)));
+  return vscode.Disposable.from(...disposables);
+}
+
+// What ${workspaceFolder}, ${userHome} and ${env:NAME} resolve to in this window
+export function resolveContext(): ResolveContext {
+  return { workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath, userHome: os.homedir(), env: process.env };
+}
+
+// The global file is the base: workspace environments with the same id are merged over it
+export async function loadConfig(): Promise<{ envs: EnvironmentConfig[]; profiles: ProfileConfig[]; workspacePath?: vscode.Uri; globalPath?: vscode.Uri }> {
+  const wUri = getWorkspaceConfigUri();
+  const gUri = getGlobalConfigUri();
+  let wBuf: Uint8Array | undefined;
+  let gBuf: Uint8Array | undefined;
+  try { if (wUri) { wBuf = await vscode.workspace.fs.readFile(wUri); } } catch {}
+  try { gBuf = await vscode.workspace.fs.readFile(gUri); } catch {}
+  // Resolution problems are reported as diagnostics on the config files
+  const { envs, profiles } = parseConfigFiles([gBuf, wBuf], resolveContext());
+  return { envs, profiles, workspacePath: wUri, globalPath: gUri };
+}
+
+export async function writeSampleConfig(target: 'workspace' | 'global'): Promise<vscode.Uri | undefined> {
+  const uri = target === 'workspace' ? getWorkspaceConfigUri() : getGlobalConfigUri();
+  if (!uri) { return undefined; }
+  const dir = vscode.Uri.file(path.dirname(uri.fsPath));
+  await vscode.workspace.fs.createDirectory(dir);
+  const content = Buffer.from(JSON.stringify(sampleConfig(), null, 2), 'utf8');
+  await vscode.workspace.fs.writeFile(uri, content);
+  return uri;
+}
@@ -0,0 +1,196 @@
+import { EnvironmentConfig, ForwardKind, forwardLists } from './config';
+
+// What config variables resolve against: ${workspaceFolder}, ${userHome} and ${env:NAME}
+export type ResolveContext = {
+  workspaceFolder?: string;
+  userHome: string;
+  env: Record<string, string | undefined>;
+};
+
+export type ResolveProblem = {
+  envId: string;
+  message: string;
+  severity: 'error' | 'warning';
+  // Where in the resolved environment, e.g. ['sshTunnels', 0, 'sshHost']
+  path: (string | number)[];
+};
+
+type Json = Record<string, unknown>;
+
+const sshConnectionFields = ['sshHost', 'user', 'port', 'identityFile', 'proxyJump', 'sshOptions', 'multiplex'];
+const listenerFields = ['restart', 'proxy', 'portFallback', 'readiness', 'probe'];
+
+// Forward fields an environment's `defaults` may fill in, per kind
+export const defaultableFields: Record<ForwardKind, readonly string[]> = {
+  ssh: [...sshConnectionFields, 'remoteHost', 'bindAddress', ...listenerFields],
+  k8s: ['namespace', 'kubectlContext', 'kubeconfig', 'targetKind', ...listenerFields],
+  socks: [...sshConnectionFields, 'bindAddress', ...listenerFields],
+  remote: [...sshConnectionFields, 'remoteBindAddress', 'localHost', 'restart', 'readiness']
+};
+
+// Built-in variables besides ${env:NAME} and ${var:name}
+export const configVariableNames = ['workspaceFolder', 'userHome'];
+
+const variablePattern = /\$\{(?:(env|var):([^}]+)|(workspaceFolder|userHome))\}/g;
+// Port fields turn back into numbers once their variables are filled in
+const numericFields = ['localPort', 'remotePort', 'port'];
+
+export function hasConfigVariables(value: string): boolean {
+  return new RegExp(variablePattern.source).test(value);
+}
+
+// Builds the environments the extension runs from the parsed config files, base file first:
+// same-id environments and `extends` chains merge (forwards by id), then `defaults` and variables are applied.
+// Abstract environments only serve as bases and are left out.
+export function resolveEnvironments(files: unknown[], context: ResolveContext): { envs: EnvironmentConfig[]; problems: ResolveProblem[] } {
+  const problems: ResolveProblem[] = [];
+  const sources = new Map<string, Json>();
+  for (const file of files) {
+    if (!Array.isArray(file)) { continue; }
+    for (const env of file) {
+      if (!isObject(env) || typeof env.id !== 'string') { continue; }
+      const existing = sources.get(env.id);
+      sources.set(env.id, existing ? mergeEnvironment(existing, env) : env);
+    }
+  }
+
+  const resolved = new Map<string, Json>();
+  const resolve = (id: string, chain: string[]): Json => {
+    const done = resolved.get(id);
+    if (done) { return done; }
+    const own = sources.get(id)!;
+    let result = own;
+    const parent = own.extends;
+    if (parent !== undefined) {
+      if (typeof parent !== 'string' || !sources.has(parent)) {
+        problems.push({ envId: id, message: `Env ${id}: extends '${String(parent)}' is not an environment`, severity: 'error', path: ['extends'] });
+      } else if (chain.includes(parent)) {
+        problems.push({ envId: id, message: `Env ${id}: extends cycle ${[...chain.slice(chain.indexOf(parent)), parent].join(' -> ')}`, severity: 'error', path: ['extends'] });
+      } else {
+        result = mergeEnvironment(resolve(parent, [...chain, parent]), own);
+        // Being abstract is not inherited
+        result = { ...result, abstract: own.abstract };
+      }
+    }
+    resolved.set(id, result);
+    return result;
+  };
+
+  const envs: EnvironmentConfig[] = [];
+  for (const id of sources.keys()) {
+    const env = resolve(id, [id]);
+    if (env.abstract === true) { continue; }
+    const { extends: _extends, abstract: _abstract, defaults: _defaults, variables: _variables, ...rest } = applyDefaults(env);
+    const variables = resolveVariables(env, context, problems);
+    envs.push(substitute(rest, [], id, variables, context, problems) as EnvironmentConfig);
+  }
+  return { envs, problems };
+}
+
+// Objects merge key by key, forward lists by id; anything else in `over` replaces what is in `base`
+function mergeEnvironment(base: Json, over: Json): Json {
+  const merged = mergeValues(base, over) as Json;
+  for (const list of Object.values(forwardLists)) {
+    if (Array.isArray(base[list]) && Array.isArray(over[list])) { merged[list] = mergeById(base[list] as unknown[], over[list] as unknown[]); }
+  }
+  return merged;
+}
+
+function mergeValues(base: unknown, over: unknown): unknown {
+  if (!isObject(base) || !isObject(over)) { return over; }
+  const merged: Json = { ...base };
+  for (const [key, value] of Object.entries(over)) {
+    merged[key] = key in base ? mergeValues(base[key], value) : value;
+  }
+  return merged;
+}
+
+function mergeById(base: unknown[], over: unknown[]): unknown[] {
+  const idOf = (item: unknown) => isObject(item) && typeof item.id === 'string' ? item.id : undefined;
+  const overrides = new Map<string, unknown>();
+  for (const item of over) {
+    const id = idOf(item);
+    if (id !== undefined) { overrides.set(id, item); }
+  }
+  const baseIds = new Set(base.map(idOf));
+  return [
+    ...base.map(item => {
+      const id = idOf(item);
+      return id !== undefined && overrides.has(id) ? mergeValues(item, overrides.get(id)) : item;
+    }),
+    ...over.filter(item => { const id = idOf(item); return id === undefined || !baseIds.has(id); })
+  ];
+}
+
+// A forward's own settings win over the defaults; objects such as sshOptions merge
+function applyDefaults(env: Json): Json {
+  if (!isObject(env.defaults)) { return env; }
+  const defaults = env.defaults;
+  const result: Json = { ...env };
+  for (const [kind, list] of Object.entries(forwardLists) as [ForwardKind, string][]) {
+    if (!Array.isArray(env[list])) { continue; }
+    const picked: Json = {};
+    for (const field of defaultableFields[kind]) {
+      if (field in defaults) { picked[field] = defaults[field]; }
+    }
+    result[list] = (env[list] as unknown[]).map(item => isObject(item) ? mergeValues(picked, item) : item);
+  }
+  return result;
+}
+
+// User variables may use the built-in ones, but not each other
+function resolveVariables(env: Json, context: ResolveContext, problems: ResolveProblem[]): Map<string, string> {
+  const variables = new Map<string, string>();
+  if (!isObject(env.variables)) { return variables; }
+  for (const [name, value] of Object.entries(env.variables)) {
+    if (typeof value !== 'string') { continue; }
+    variables.set(name, substituteString(value, ['variables', name], env.id as string, new Map(), context, problems));
+  }
+  return variables;
+}
+
+function substitute(value: unknown, path: (string | number)[], envId: string, variables: Map<string, string>, context: ResolveContext, problems: ResolveProblem[]): unknown {
+  if (typeof value === 'string') {
+    if (!hasConfigVariables(value)) { return value; }
+    const result = substituteString(value, path, envId, variables, context, problems);
+    const field = path[path.length - 1];
+    return typeof field === 'string' && numericFields.includes(field) && /^\d+$/.test(result) ? Number(result) : result;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => substitute(item, [...path, index], envId, variables, context, problems));
+  }
+  if (isObject(value)) {
+    const result: Json = {};
+    for (const [key, item] of Object.entries(value)) { result[key] = substitute(item, [...path, key], envId, variables, context, problems); }
+    return result;
+  }
+  return value;
+}
+
+// Unknown variables are reported and left as written; an unset environment variable becomes empty, like in VS Code
+function substituteString(value: string, path: (string | number)[], envId: string, variables: Map<string, string>, context: ResolveContext, problems: ResolveProblem[]): string {
+  return value.replace(variablePattern, (match, scope: string | undefined, name: string | undefined, builtin: string | undefined) => {
+    if (builtin === 'userHome') { return context.userHome; }
+    if (builtin === 'workspaceFolder') {
+      if (context.workspaceFolder !== undefined) { return context.workspaceFolder; }
+      problems.push({ envId, message: `Env ${envId}: \${workspaceFolder} needs an open folder`, severity: 'error', path });
+      return match;
+    }
+    if (scope === 'env') {
+      const set = context.env[name!];
+      if (set === undefined) { problems.push({ envId, message: `Env ${envId}: environment variable ${name} is not set`, severity: 'warning', path }); }
+      return set ?? '';
+    }
+    const defined = variables.get(name!);
+    if (defined === undefined) {
+      const hint = path[0] === 'variables' ? ' (variables can only use ${env:...}, ${workspaceFolder} and ${userHome})' : '';
+      problems.push({ envId, message: `Env ${envId}: unknown variable '${name}'${hint}`, severity: 'error', path });
+      return match;
+    }
+    return defined;
+  });
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
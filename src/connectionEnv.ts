@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ForwardKey } from './config';
+import { forwardEnvVars, renderEnvFile } from './envTemplates';
+import { ForwardManager } from './forwardManager';
+
+// Exports the env vars of the active environment's running forwards to new integrated terminals and,
+// when configured, a .env file. The active environment is the one whose forwards were started last.
+export class ConnectionEnv implements vscode.Disposable {
+  private subscriptions: vscode.Disposable[];
+  private writing: Promise<void> = Promise.resolve();
+  // Environments with running forwards, most recently started first
+  private recent: string[] = [];
+
+  constructor(private manager: ForwardManager, private collection: vscode.EnvironmentVariableCollection) {
+    // Values point at forwards of this window; don't restore them into terminals of a later session
+    collection.persistent = false;
+    collection.description = 'Connection variables of the active Local Dependency Forwarder environment';
+    this.subscriptions = [
+      manager.onDidChange(() => this.update()),
+      manager.onDidChangeEnvironments(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('localDependencyForwarder.terminalEnv') || e.affectsConfiguration('localDependencyForwarder.envFile')) { this.update(); }
+      })
+    ];
+    this.update();
+  }
+
+  public runningEnvironments(): string[] {
+    this.trackEnvironments();
+    return [...this.recent];
+  }
+
+  // Vars of an environment's running forwards, the active environment's by default; the first forward defining a name wins
+  public runningVars(envId = this.runningEnvironments()[0]): Record<string, string> {
+    const vars: Record<string, string> = {};
+    for (const key of this.manager.getRunningKeys().filter(k => k.envId === envId)) {
+      for (const [name, value] of Object.entries(this.varsOf(key))) {
+        if (!(name in vars)) { vars[name] = value; }
+      }
+    }
+    return vars;
+  }
+
+  public varsOf(key: ForwardKey): Record<string, string> {
+    const env = this.manager.getEnvironments().find(e => e.id === key.envId);
+    if (!env) { return {}; }
+    return forwardEnvVars(env, key, this.manager.getLocalPort(key), ref => this.manager.resolvePortReference(ref));
+  }
+
+  // Write the block to the given workspace-relative file (the envFile setting by default)
+  public async writeEnvFile(file = this.envFileSetting(), envId?: string): Promise<vscode.Uri | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder || !file) { return undefined; }
+    const target = path.isAbsolute(file) ? file : path.join(folder.uri.fsPath, file);
+    const vars = this.runningVars(envId);
+    // Serialize writes; forwards often change several times in a row
+    const write = this.writing.then(async () => {
+      let existing = '';
+      try { existing = await fs.promises.readFile(target, 'utf8'); } catch {}
+      const next = renderEnvFile(existing, vars);
+      if (next === existing || (!existing && !next)) { return; }
+      await fs.promises.writeFile(target, next, 'utf8');
+    });
+    this.writing = write.catch(() => {});
+    await write;
+    return vscode.Uri.file(target);
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions) { d.dispose(); }
+    this.collection.clear();
+  }
+
+  // Newly running environments go first; ones without running forwards drop out
+  private trackEnvironments() {
+    const running = new Set(this.manager.getRunningKeys().map(k => k.envId));
+    this.recent = [...[...running].filter(id => !this.recent.includes(id)), ...this.recent.filter(id => running.has(id))];
+  }
+
+  private update() {
+    const vars = this.runningVars();
+    this.collection.clear();
+    if (vscode.workspace.getConfiguration('localDependencyForwarder').get<boolean>('terminalEnv', true)) {
+      for (const [name, value] of Object.entries(vars)) { this.collection.replace(name, value); }
+    }
+    if (this.envFileSetting()) {
+      this.writeEnvFile().catch(e => vscode.window.showErrorMessage(`Failed to write env file: ${String(e?.message ?? e)}`));
+    }
+  }
+
+  private envFileSetting(): string {
+    return vscode.workspace.getConfiguration('localDependencyForwarder').get<string>('envFile', '').trim();
+  }
+}
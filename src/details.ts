@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { ForwardKey, K8sForward, RemoteForward, SshConnection, SshTunnel, SocksProxy, findForwardItem, k8sTargetLabel } from './config';
+import { ForwardManager } from './forwardManager';
+import { TrafficStats } from './localProxy';
+
+// Read-only "Forward Details" documents, rendered from the manager's current state
+export class ForwardDetailsProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  static readonly scheme = 'local-dependency-forwarder-details';
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  private subscriptions: vscode.Disposable[];
+  private timer: NodeJS.Timeout;
+
+  constructor(private manager: ForwardManager) {
+    this.subscriptions = [
+      this.onDidChangeEmitter,
+      manager.onDidChange(() => this.refreshOpen()),
+      manager.onDidChangeEnvironments(() => this.refreshOpen())
+    ];
+    // Traffic counters change without manager events; refresh open documents periodically
+    this.timer = setInterval(() => this.refreshOpen(), 3000);
+  }
+
+  public static uriFor(key: ForwardKey): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: ForwardDetailsProvider.scheme,
+      path: `/${key.envId}-${key.kind}-${key.id}.txt`,
+      query: JSON.stringify(key)
+    });
+  }
+
+  public async show(key: ForwardKey): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument(ForwardDetailsProvider.uriFor(key));
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    const key = JSON.parse(uri.query) as ForwardKey;
+    const id = `${key.envId}:${key.kind}:${key.id}`;
+    const env = this.manager.getEnvironments().find(e => e.id === key.envId);
+    const lines: string[] = [];
+    const row = (label: string, value: string | number) => lines.push(`${(label + ':').padEnd(22)}${value}`);
+
+    const forward = findForwardItem(env, key);
+    lines.push(`${forward?.title || key.id} (${id})`, '');
+    if (forward && key.kind === 'k8s') {
+      const f = forward as K8sForward;
+      row('Target', `${k8sTargetLabel(f)}:${f.remotePort}`);
+    } else if (forward) {
+      const via = sshRoute(forward as SshConnection);
+      if (key.kind === 'ssh') {
+        const t = forward as SshTunnel;
+        row('Target', `${t.remoteHost}:${t.remotePort} via ${via}`);
+        if (t.bindAddress) { row('Bind address', t.bindAddress); }
+      } else if (key.kind === 'socks') {
+        const s = forward as SocksProxy;
+        row('Target', `SOCKS proxy via ${via}`);
+        if (s.bindAddress) { row('Bind address', s.bindAddress); }
+      } else {
+        const r = forward as RemoteForward;
+        row('Target', `${r.remoteBindAddress ? `${r.remoteBindAddress}:` : ''}${r.remotePort} on ${via} → ${r.localHost ?? 'localhost'}:${r.localPort}`);
+      }
+    }
+    if (!env) { row('Config', 'not found in the current config'); }
+
+    const info = this.manager.getInfo(key);
+    const failure = this.manager.getFailed().find(f => f.key === id);
+    if (!info) {
+      row('State', failure ? `failed (${failure.reason})` : 'stopped');
+      const preview = this.manager.previewCommand(key);
+      if (preview?.master) {
+        row('Command', `ssh ${preview.master.args.map(shellQuote).join(' ')} (on start, unless already connected)`);
+        row('Forward', `${preview.command} ${preview.args.map(shellQuote).join(' ')}`);
+      } else {
+        row('Command', preview ? `${preview.command} ${preview.args.map(shellQuote).join(' ')} (on start)` : 'decided on start');
+      }
+      return lines.join('\n') + '\n';
+    }
+    row('State', info.attempt > 0 ? `reconnecting (attempt ${info.attempt})` : 'running');
+    if (info.lastError) { row('Last error', info.lastError); }
+    const health = this.manager.getHealthOf(key);
+    row('Health', health ? `${health.ok ? 'ok' : 'failing'}: ${health.detail} (${formatAgo(health.checkedAt)})` : 'not checked yet');
+    // A forward on a shared connection runs as part of that connection's ssh; its own command only adds it there
+    if (info.master) {
+      row('Command', `ssh ${info.master.args.map(shellQuote).join(' ')}`);
+      row('Forward', `${info.command} ${info.args.map(shellQuote).join(' ')}`);
+    } else {
+      row('Command', `${info.command} ${info.args.map(shellQuote).join(' ')}`);
+    }
+    if (info.localPort) { row('Local port', info.localPort); }
+    if (info.upstreamPort !== info.localPort) { row('Upstream port', `${info.upstreamPort} (proxy)`); }
+    if (info.master) { row('Connection', `shared, control socket ${info.master.socket}`); }
+    row('PID', info.pid ?? '-');
+    row('Started', `${new Date(info.startedAt).toLocaleString()} (${formatAgo(info.startedAt)})`);
+
+    lines.push('', 'Traffic');
+    if (!info.stats) {
+      lines.push('Remote forwards report no traffic.');
+    } else {
+      if (info.stats.activeConnections !== undefined) { row('Active connections', info.stats.activeConnections); }
+      row('Total connections', info.stats.totalConnections);
+      if (info.stats.bytesOut !== undefined && info.stats.bytesIn !== undefined) {
+        row('Sent', formatBytes(info.stats.bytesOut));
+        row('Received', formatBytes(info.stats.bytesIn));
+      }
+      row('Last activity', info.stats.lastActivity ? formatAgo(info.stats.lastActivity) : 'never');
+      if (info.stats.bytesOut === undefined) { lines.push('', `Connections as ${info.key.kind === 'k8s' ? 'kubectl' : 'ssh'} reports them; byte counts need proxy mode ("proxy": true).`); }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  public dispose() {
+    clearInterval(this.timer);
+    for (const d of this.subscriptions) { d.dispose(); }
+  }
+
+  private refreshOpen() {
+    for (const doc of vscode.workspace.textDocuments) {
+      if (doc.uri.scheme === ForwardDetailsProvider.scheme) { this.onDidChangeEmitter.fire(doc.uri); }
+    }
+  }
+}
+
+// user@host:port followed by the jump hosts, as ssh is told to connect
+function sshRoute(c: SshConnection): string {
+  const jumps = c.proxyJump?.length ? ` (jumping through ${c.proxyJump.join(' → ')})` : '';
+  return `${c.user ? `${c.user}@` : ''}${c.sshHost}${c.port ? `:${c.port}` : ''}${jumps}`;
+}
+
+export function formatStats(stats: TrafficStats): string {
+  const last = stats.lastActivity ? formatAgo(stats.lastActivity) : 'idle';
+  const conns = stats.activeConnections !== undefined ? `${stats.activeConnections} conn` : `${stats.totalConnections} conn total`;
+  const bytes = stats.bytesOut !== undefined && stats.bytesIn !== undefined ? ` · ↑${formatBytes(stats.bytesOut)} ↓${formatBytes(stats.bytesIn)}` : '';
+  return `${conns}${bytes} · ${last}`;
+}
+
+// Quote an argument so the command line can be pasted into a POSIX shell
+function shellQuote(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) { return arg; }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) { return `${n} B`; }
+  if (n < 1024 * 1024) { return `${(n / 1024).toFixed(1)} KB`; }
+  if (n < 1024 * 1024 * 1024) { return `${(n / 1024 / 1024).toFixed(1)} MB`; }
+  return `${(n / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function formatAgo(ts: number): string {
+  const s = Math.max(0, Math.round((Date.now() - ts) / 1000));
+  if (s < 60) { return `${s}s ago`; }
+  if (s < 3600) { return `${Math.floor(s / 60)}m ago`; }
+  return `${Math.floor(s / 3600)}h ago`;
+}
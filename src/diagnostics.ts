@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { getGlobalConfigUri, getWorkspaceConfigUri, resolveContext } from './configFiles';
+import { validateConfigFiles } from './validation';
+
+// Publishes config validation problems as diagnostics on the workspace/global config files
+export class ConfigDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('local-dependency-forwarder');
+  private disposables: vscode.Disposable[] = [];
+
+  // Bumped by each refresh, so a slower earlier one doesn't overwrite a newer result
+  private generation = 0;
+
+  constructor() {
+    const onConfig = (doc: vscode.TextDocument) => { if (this.isConfigUri(doc.uri)) { void this.refresh(); } };
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidOpenTextDocument(onConfig),
+      vscode.workspace.onDidChangeTextDocument(e => onConfig(e.document)),
+      // Unsaved edits are dropped on close, so fall back to what's on disk
+      vscode.workspace.onDidCloseTextDocument(onConfig)
+    );
+  }
+
+  // Both files are checked together: environments in one can extend or be merged into the other
+  public async refresh(): Promise<void> {
+    const generation = ++this.generation;
+    const files = await Promise.all(this.configUris().map(uri => this.read(uri)));
+    if (generation !== this.generation) { return; }
+    const problems = validateConfigFiles(files.map(f => f.text), resolveContext());
+    files.forEach((file, i) => {
+      if (file.text === undefined) {
+        this.collection.delete(file.uri);
+        return;
+      }
+      const diags = problems[i].map(p => {
+        const range = new vscode.Range(file.positionAt(p.offset), file.positionAt(p.offset + p.length));
+        const severity = p.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+        const diag = new vscode.Diagnostic(range, p.message, severity);
+        diag.source = 'local-dependency-forwarder';
+        return diag;
+      });
+      this.collection.set(file.uri, diags);
+    });
+  }
+
+  public errorCount(): number {
+    let count = 0;
+    this.collection.forEach((_uri, diags) => {
+      count += diags.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+    });
+    return count;
+  }
+
+  public dispose() {
+    for (const d of this.disposables) { d.dispose(); }
+  }
+
+  // In merge order: the global file is the base
+  private configUris(): vscode.Uri[] {
+    const w = getWorkspaceConfigUri();
+    return w ? [getGlobalConfigUri(), w] : [getGlobalConfigUri()];
+  }
+
+  private isConfigUri(uri: vscode.Uri): boolean {
+    return this.configUris().some(u => u.toString() === uri.toString());
+  }
+
+  // The open editor's text, with unsaved edits, or what's on disk
+  private async read(uri: vscode.Uri): Promise<{ uri: vscode.Uri; text?: string; positionAt: (offset: number) => vscode.Position }> {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open) {
+      return { uri, text: open.getText(), positionAt: offset => open.positionAt(offset) };
+    }
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      return { uri, positionAt: () => new vscode.Position(0, 0) };
+    }
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) { lineStarts.push(i + 1); }
+    }
+    const positionAt = (offset: number) => {
+      let line = lineStarts.length - 1;
+      while (line > 0 && lineStarts[line] > offset) { line--; }
+      return new vscode.Position(line, offset - lineStarts[line]);
+    };
+    return { uri, text, positionAt };
+  }
+}
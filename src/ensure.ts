@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { ForwardKey, resolveForwardTargets } from './config';
+import { ForwardManager, describeStartReport } from './forwardManager';
+import { substituteForwardPorts } from './envTemplates';
+
+// Start the referenced forwards and their dependencies; resolves once all are ready, with every forward that is
+// ready and the ones this call started
+export async function ensureForwards(manager: ForwardManager, refs: string[]): Promise<{ ready: ForwardKey[]; started: ForwardKey[] }> {
+  const keys = resolveForwardTargets(manager.getEnvironments(), refs);
+  const before = new Set(manager.getRunningKeys().map(keyId));
+  const report = await manager.startWithDependencies(keys);
+  const problems = describeStartReport(report);
+  if (problems) { throw new Error(problems); }
+  return { ready: report.started, started: report.started.filter(k => !before.has(keyId(k))) };
+}
+
+function keyId(key: ForwardKey): string {
+  return `${key.envId}:${key.kind}:${key.id}`;
+}
+
+type ForwardsTaskDefinition = vscode.TaskDefinition & { forwards: string[] };
+
+// Tasks of type local-dependency-forwarder that finish once their forwards are ready, for use as preLaunchTask
+export class ForwardsTaskProvider implements vscode.TaskProvider {
+  static readonly type = 'local-dependency-forwarder';
+
+  constructor(private manager: ForwardManager) {}
+
+  public provideTasks(): vscode.Task[] {
+    return this.manager.getEnvironments().map(env => this.build({ type: ForwardsTaskProvider.type, forwards: [env.id] }, `ensure ${env.name}`));
+  }
+
+  public resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as ForwardsTaskDefinition;
+    if (!Array.isArray(definition.forwards)) { return undefined; }
+    return this.build(definition, task.name, task.scope);
+  }
+
+  private build(definition: ForwardsTaskDefinition, name: string, scope: vscode.TaskScope | vscode.WorkspaceFolder = vscode.TaskScope.Workspace): vscode.Task {
+    const execution = new vscode.CustomExecution(async () => new EnsureTerminal(this.manager, definition.forwards));
+    return new vscode.Task(definition, scope, name, 'Local Dependency Forwarder', execution);
+  }
+}
+
+class EnsureTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number>();
+  public readonly onDidWrite = this.writeEmitter.event;
+  public readonly onDidClose = this.closeEmitter.event;
+
+  constructor(private manager: ForwardManager, private refs: string[]) {}
+
+  public open() {
+    this.writeEmitter.fire(`Ensuring forwards: ${this.refs.join(', ')}\r\n`);
+    ensureForwards(this.manager, this.refs).then(({ started }) => {
+      this.writeEmitter.fire(started.length ? `Started ${started.map(keyId).join(', ')}; all ready.\r\n` : 'Already running and ready.\r\n');
+      this.closeEmitter.fire(0);
+    }, e => {
+      this.writeEmitter.fire(`Failed: ${String(e?.message ?? e)}\r\n`);
+      this.closeEmitter.fire(1);
+    });
+  }
+
+  public close() {}
+}
+
+// Forwards a launch (and then its session) relies on, and those it stops when done (stopForwards)
+type Holder = { keys: ForwardKey[]; stop: ForwardKey[] };
+
+// A launch that never turns into a session (e.g. its preLaunchTask failed) lets go of its forwards after this
+const pendingTimeoutMs = 10 * 60 * 1000;
+
+// Launch configs may declare "forwards": [...] (started before the session) and "stopForwards": true (stopped after it)
+export class ForwardsDebugProvider implements vscode.DebugConfigurationProvider, vscode.Disposable {
+  private static readonly tokenProperty = '__localDependencyForwarderToken';
+  private pending = new Map<string, { holder: Holder; timer: NodeJS.Timeout }>();
+  private sessions = new Map<string, Holder>();
+  private nextToken = 0;
+  private subscriptions: vscode.Disposable[];
+
+  constructor(private manager: ForwardManager) {
+    this.subscriptions = [
+      vscode.debug.onDidStartDebugSession(session => {
+        const holder = this.takePending(session.configuration[ForwardsDebugProvider.tokenProperty]);
+        if (holder) { this.sessions.set(session.id, holder); }
+      }),
+      vscode.debug.onDidTerminateDebugSession(session => {
+        // A session that failed early may end without having been reported as started
+        const holder = this.sessions.get(session.id) ?? this.takePending(session.configuration[ForwardsDebugProvider.tokenProperty]);
+        this.sessions.delete(session.id);
+        if (holder) { void this.release(holder); }
+      })
+    ];
+  }
+
+  public async resolveDebugConfiguration(_folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.DebugConfiguration | undefined> {
+    const refs = config.forwards;
+    if (refs === undefined) { return substituteValues(config, ref => this.manager.resolvePortReference(ref)) as vscode.DebugConfiguration; }
+    if (!Array.isArray(refs) || refs.some(r => typeof r !== 'string')) {
+      vscode.window.showErrorMessage(`Launch config '${config.name}': "forwards" must be an array of strings.`);
+      return undefined;
+    }
+    let ensured: { ready: ForwardKey[]; started: ForwardKey[] };
+    try {
+      ensured = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Starting forwards for ${config.name}` },
+        () => ensureForwards(this.manager, refs)
+      );
+    } catch (e: any) {
+      // Returning undefined aborts the launch
+      vscode.window.showErrorMessage(`Launch config '${config.name}': ${String(e?.message ?? e)}`);
+      return undefined;
+    }
+    // Ports are known now, including auto/range ones
+    const resolved = substituteValues(config, ref => this.manager.resolvePortReference(ref)) as vscode.DebugConfiguration;
+    // Every launch holds its forwards, so one without stopForwards still keeps another's from being stopped
+    const token = String(this.nextToken++);
+    const holder = { keys: ensured.ready, stop: resolved.stopForwards === true ? ensured.started : [] };
+    const timer = setTimeout(() => {
+      if (this.takePending(token)) { void this.release(holder); }
+    }, pendingTimeoutMs);
+    this.pending.set(token, { holder, timer });
+    resolved[ForwardsDebugProvider.tokenProperty] = token;
+    return resolved;
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions) { d.dispose(); }
+    for (const { timer } of this.pending.values()) { clearTimeout(timer); }
+  }
+
+  private takePending(token: unknown): Holder | undefined {
+    const entry = typeof token === 'string' ? this.pending.get(token) : undefined;
+    if (!entry) { return undefined; }
+    clearTimeout(entry.timer);
+    this.pending.delete(token as string);
+    return entry.holder;
+  }
+
+  // Stop what the session started, unless another session or launch still needs it
+  private async release(holder: Holder) {
+    const holders = [...this.sessions.values(), ...[...this.pending.values()].map(p => p.holder)];
+    const stillNeeded = new Set(holders.flatMap(h => h.keys).map(keyId));
+    for (const key of [...holder.stop].reverse()) {
+      if (!stillNeeded.has(keyId(key))) { await this.manager.stop(key); }
+    }
+  }
+}
+
+// ${forward:env/id.port} in every string of a launch config
+function substituteValues(value: unknown, portOf: (ref: string) => number | undefined): unknown {
+  if (typeof value === 'string') { return substituteForwardPorts(value, portOf); }
+  if (Array.isArray(value)) { return value.map(v => substituteValues(v, portOf)); }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substituteValues(v, portOf)]));
+  }
+  return value;
+}
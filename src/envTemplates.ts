@@ -0,0 +1,75 @@
+import { EnvironmentConfig, ForwardKey, K8sForward, RemoteForward, SocksProxy, SshTunnel, findForwardItem, k8sTargetLabel } from './config';
+
+// Placeholders a forward's `env` templates may use, e.g. mysql://127.0.0.1:${localPort}/app
+export const envTemplateVariables = ['localPort', 'localHost', 'remotePort', 'remoteHost', 'sshHost', 'namespace', 'target', 'id', 'envId'] as const;
+
+export function expandTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\$\{(\w+)\}/g, (match, name: string) => vars[name] ?? match);
+}
+
+// Placeholders in a template that expandTemplate would leave untouched
+export function unknownTemplateVariables(template: string): string[] {
+  const known: readonly string[] = envTemplateVariables;
+  return Array.from(template.matchAll(/\$\{(\w+)\}/g), m => m[1]).filter(name => !known.includes(name));
+}
+
+// Replace ${forward:env/id.port} references with the port the lookup returns; unresolved ones are left as they are
+export function substituteForwardPorts(text: string, portOf: (ref: string) => number | undefined): string {
+  return text.replace(/\$\{forward:([^}]+)\.port\}/g, (match, ref: string) => {
+    const port = portOf(ref);
+    return port !== undefined ? String(port) : match;
+  });
+}
+
+// The forward's env vars with templates expanded. localPort is the port it actually runs on; auto/range ports
+// of a stopped forward are unknown and stay unexpanded. For remote forwards localPort is the local service's port.
+export function forwardEnvVars(env: EnvironmentConfig, key: ForwardKey, localPort?: number, portOf?: (ref: string) => number | undefined): Record<string, string> {
+  const item = findForwardItem(env, key);
+  if (!item) { return {}; }
+  const vars: Record<string, string> = { id: key.id, envId: env.id };
+  const port = key.kind === 'remote' ? item.localPort : localPort ?? item.localPort;
+  if (typeof port === 'number') { vars.localPort = String(port); }
+  if (key.kind === 'ssh') {
+    const t = item as SshTunnel;
+    Object.assign(vars, { remotePort: String(t.remotePort), remoteHost: t.remoteHost, sshHost: t.sshHost });
+  } else if (key.kind === 'k8s') {
+    const f = item as K8sForward;
+    Object.assign(vars, { remotePort: String(f.remotePort), namespace: f.namespace, target: k8sTargetLabel(f) });
+  } else if (key.kind === 'remote') {
+    const r = item as RemoteForward;
+    Object.assign(vars, { remotePort: String(r.remotePort), sshHost: r.sshHost, localHost: r.localHost ?? 'localhost' });
+  } else {
+    vars.sshHost = (item as SocksProxy).sshHost;
+  }
+  const templates = item.env;
+  const result: Record<string, string> = {};
+  for (const [name, template] of Object.entries(templates ?? {})) {
+    if (typeof template !== 'string') { continue; }
+    const value = expandTemplate(template, vars);
+    result[name] = portOf ? substituteForwardPorts(value, portOf) : value;
+  }
+  return result;
+}
+
+const blockStart = '# >>> local-dependency-forwarder (generated from running forwards, edits are overwritten)';
+const blockEnd = '# <<< local-dependency-forwarder';
+
+// Replace our block in an existing .env file, keeping everything else; no vars removes the block
+export function renderEnvFile(existing: string, vars: Record<string, string>): string {
+  const lines = existing.split(/\r?\n/);
+  const start = lines.indexOf(blockStart);
+  const end = start >= 0 ? lines.indexOf(blockEnd, start) : -1;
+  if (start >= 0) { lines.splice(start, (end >= 0 ? end : lines.length - 1) - start + 1); }
+  while (lines.length && lines[lines.length - 1] === '') { lines.pop(); }
+  const names = Object.keys(vars);
+  if (names.length) {
+    if (lines.length) { lines.push(''); }
+    lines.push(blockStart, ...names.map(name => `${name}=${quoteEnvValue(vars[name])}`), blockEnd);
+  }
+  return lines.length ? lines.join('\n') + '\n' : '';
+}
+
+function quoteEnvValue(value: string): string {
+  if (/^[\w@%+=:,./?&-]*$/.test(value)) { return value; }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
@@ -0,0 +1,33 @@
+// The engine's events and output without the vscode module, so the CLI can run it too.
+// Shaped like vscode.Event and vscode.OutputChannel: the extension subscribes and passes its channel as is.
+
+export type Disposable = { dispose(): void };
+
+export type Event<T> = (listener: (e: T) => unknown) => Disposable;
+
+export class Emitter<T> {
+  private listeners = new Set<(e: T) => unknown>();
+
+  public readonly event: Event<T> = listener => {
+    this.listeners.add(listener);
+    return { dispose: () => { this.listeners.delete(listener); } };
+  };
+
+  // A throwing listener doesn't keep the others from being called
+  public fire(e: T) {
+    for (const listener of [...this.listeners]) {
+      try { listener(e); } catch (err) { console.error(err); }
+    }
+  }
+
+  public dispose() {
+    this.listeners.clear();
+  }
+}
+
+// Where the engine writes: the extension's output channel, or stdout in the CLI
+export interface Logger {
+  append(text: string): void;
+  appendLine(line: string): void;
+  show?(preserveFocus?: boolean): void;
+}
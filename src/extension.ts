@@ -1,20 +1,38 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { loadConfig, ForwardKey, EnvironmentConfig, writeSampleConfig } from './config';
-import { ForwardManager } from './forwardManager';
-import { AdminPanel, buildHtml, WebviewMessage } from './panel';
+import { ForwardKey, EnvironmentConfig, ProfileConfig, RemoteForward, SshConnection, resolveForwardTargets, findForwardItem, forwardKeysOf, forwardsOf, expandHome } from './config';
+import { loadConfig, writeSampleConfig, watchConfigFiles } from './configFiles';
+import { ForwardManager, ProfileStatus, StartReport, describeStartReport } from './forwardManager';
+import { ConfigDiagnostics } from './diagnostics';
+import { ForwardTreeProvider, ForwardTreeNode } from './treeView';
+import { ForwardStatusBar } from './statusBar';
+import { ForwardDetailsProvider, formatStats } from './details';
+import { ForwardLogProvider } from './logView';
+import { describeOwner, inspectPorts } from './portInspector';
+import { ConnectionEnv } from './connectionEnv';
+import { ForwardsDebugProvider, ForwardsTaskProvider, ensureForwards } from './ensure';
+import { HostKeyPrompt, HostKeyVerifier } from './hostKeys';
+import { AskpassBridge, AskpassPrompt } from './askpass';
+import { AdminPanel, PanelProfile, buildHtml, WebviewMessage } from './panel';
+import { ForwarderApi, LocalDependencyForwarderExports, apiExports } from './api';
+
+const runningStateKey = 'runningForwards';
+let activeManager: ForwardManager | undefined;
+let deactivating = false;
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<LocalDependencyForwarderExports> {
     console.log('local-dependency-forwarder activated');
 
     let currentEnvs: EnvironmentConfig[] = [];
-    const load = async () => {
-        const { envs } = await loadConfig();
+    let currentProfiles: ProfileConfig[] = [];
+    const load = async (promptIfEmpty = true) => {
+        const { envs, profiles } = await loadConfig();
         currentEnvs = envs;
-        if (!envs.length) {
+        currentProfiles = profiles;
+        if (!envs.length && promptIfEmpty) {
             const choice = await vscode.window.showQuickPick([
                 { label: 'Create Workspace Config (.vscode/local-dependency-forwarder.json)', target: 'workspace' },
                 { label: 'Create Global Config (~/.vscode/local-dependency-forwarder.json)', target: 'global' }
@@ -29,22 +47,68 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     };
     
-    // initial load
-    await load();
-    const manager = new ForwardManager(currentEnvs);
+    // initial load; don't prompt for a sample config when activated on startup
+    await load(false);
+    const output = vscode.window.createOutputChannel('Local Dependency Forwarder');
+    context.subscriptions.push(output);
+    const knownHostsFile = vscode.Uri.joinPath(context.globalStorageUri, 'known_hosts').fsPath;
+    const hostKeys = new HostKeyVerifier(knownHostsFile, confirmHostKey, line => output.appendLine(line));
+    const askpass = new AskpassBridge(
+        { wrapper: context.asAbsolutePath(process.platform === 'win32' ? 'bin/askpass.cmd' : 'bin/askpass.sh'), main: context.asAbsolutePath('dist/askpass.js') },
+        askSsh,
+        context.secrets,
+        () => vscode.workspace.getConfiguration('localDependencyForwarder').get<boolean>('rememberPassphrases', false),
+        line => output.appendLine(line)
+    );
+    context.subscriptions.push(askpass);
+    const manager = new ForwardManager(currentEnvs, { output, hostKeys, askpass, profiles: currentProfiles });
+    activeManager = manager;
     const panelHost = new AdminPanel(context);
+    const diagnostics = new ConfigDiagnostics();
+    context.subscriptions.push(diagnostics);
+    void diagnostics.refresh();
+
+    // Remember which forwards are on so a window reload can bring them back
+    context.subscriptions.push(manager.onDidChange(() => {
+        if (deactivating) { return; }
+        void context.workspaceState.update(runningStateKey, manager.getRunningKeys());
+    }));
+
+    // Reload on save and reconcile running forwards with the new definitions
+    let reloadTimer: NodeJS.Timeout | undefined;
+    const reloadFromDisk = async () => {
+        await load(false);
+        const { restarted, stopped, failed } = await manager.setEnvironments(currentEnvs, currentProfiles);
+        void diagnostics.refresh();
+        const parts: string[] = [];
+        if (restarted.length) { parts.push(`restarted ${restarted.length} changed forward(s)`); }
+        if (stopped.length) { parts.push(`stopped ${stopped.length} removed forward(s)`); }
+        if (parts.length) {
+            vscode.window.showInformationMessage(`Config reloaded: ${parts.join(', ')}.`);
+        }
+        if (failed.length) {
+            vscode.window.showErrorMessage('Failed to restart: ' + failed.map(f => `${f.key.envId}:${f.key.kind}:${f.key.id} (${f.error})`).join(' | '));
+        }
+    };
+    context.subscriptions.push(watchConfigFiles(() => {
+        // Editors often write a file in several steps; only reload once it settles
+        if (reloadTimer) { clearTimeout(reloadTimer); }
+        reloadTimer = setTimeout(() => {
+            reloadFromDisk().catch(e => output.appendLine(`Config: reload failed (${String(e?.message ?? e)})`));
+        }, 300);
+    }));
+    context.subscriptions.push({ dispose: () => { if (reloadTimer) { clearTimeout(reloadTimer); } } });
+
+    if (vscode.workspace.getConfiguration('localDependencyForwarder').get<boolean>('restoreOnStartup', false)) {
+        void restoreForwards(context, manager);
+    }
 
     function runningKeys(): string[] {
         const envs = manager.getEnvironments();
         const ids: string[] = [];
         for (const env of envs) {
-            for (const t of env.sshTunnels) {
-                const k = { envId: env.id, kind: 'ssh' as const, id: t.id };
-                if (manager.isRunning(k)) { ids.push(`${env.id}:ssh:${t.id}`); }
-            }
-            for (const f of env.k8sForwards) {
-                const k = { envId: env.id, kind: 'k8s' as const, id: f.id };
-                if (manager.isRunning(k)) { ids.push(`${env.id}:k8s:${f.id}`); }
+            for (const k of forwardKeysOf(env)) {
+                if (manager.isRunning(k)) { ids.push(keyId(k)); }
             }
         }
         return ids;
@@ -52,29 +116,278 @@ export async function activate(context: vscode.ExtensionContext) {
 
     function occupiedPorts(): number[] { return manager.getOccupiedPorts(); }
     function portUsage(): { port: number; key: string }[] { return manager.getPortUsage(); }
+    function reconnecting(): { key: string; attempt: number; reason?: string }[] { return manager.getReconnecting(); }
+    function failed(): { key: string; reason: string }[] { return manager.getFailed(); }
+    function health(): { key: string; ok: boolean; detail: string }[] { return manager.getHealth().map(h => ({ key: h.key, ok: h.ok, detail: h.detail })); }
+    function stats(): { key: string; summary: string }[] { return manager.getAllStats().map(s => ({ key: s.key, summary: formatStats(s.stats) })); }
+    function profiles(): PanelProfile[] {
+        return manager.getProfiles().map(p => {
+            const status = manager.getProfileStatus(p);
+            return { id: p.id, name: p.name ?? p.id, state: describeProfileStatus(status), up: status.up, running: status.running };
+        });
+    }
+
+    async function startEnvironment(envId: string): Promise<void> {
+        const env = manager.getEnvironments().find(e => e.id === envId);
+        if (!env) { return; }
+        showStartReport(`Env ${env.name}`, await manager.startWithDependencies(forwardKeysOf(env)));
+    }
+
+    async function startForward(key: ForwardKey): Promise<void> {
+        showStartReport(keyId(key), await manager.startWithDependencies([key]));
+    }
+
+    async function startProfile(id: string): Promise<void> {
+        const profile = manager.getProfiles().find(p => p.id === id);
+        showStartReport(`Profile ${profile?.name ?? id}`, await manager.startProfile(id));
+    }
+
+    // Profiles to pick from, with how much of each runs; undefined when none is picked
+    async function pickProfile(placeHolder: string): Promise<string | undefined> {
+        const list = manager.getProfiles();
+        if (!list.length) {
+            vscode.window.showInformationMessage('No profiles configured. Add "profiles" to the config file.');
+            return undefined;
+        }
+        const pick = await vscode.window.showQuickPick(list.map(p => {
+            const status = manager.getProfileStatus(p);
+            return { label: `${status.up ? '$(pass-filled)' : '$(circle-large-outline)'} ${p.name ?? p.id}`, description: describeProfileStatus(status), detail: p.forwards.join(', '), id: p.id };
+        }), { placeHolder });
+        return pick?.id;
+    }
+
+    // periodic health check to reflect crashed/closed forwards, also while the panel is closed
+    const healthTimer = setInterval(async () => { try { await manager.healthCheck(); } catch {} }, 3000);
+    context.subscriptions.push({ dispose: () => clearInterval(healthTimer) });
+
+    const tree = new ForwardTreeProvider(manager);
+    context.subscriptions.push(tree, vscode.window.registerTreeDataProvider(ForwardTreeProvider.viewId, tree));
+    context.subscriptions.push(new ForwardStatusBar(manager));
+
+    const details = new ForwardDetailsProvider(manager);
+    context.subscriptions.push(details, vscode.workspace.registerTextDocumentContentProvider(ForwardDetailsProvider.scheme, details));
+    context.subscriptions.push(vscode.commands.registerCommand('local-dependency-forwarder.showDetails', async (arg?: ForwardTreeNode | ForwardKey) => {
+        const key = arg && 'type' in arg ? (arg.type === 'forward' ? arg.key : undefined) : arg;
+        if (key) { await details.show(key); }
+    }));
+
+    const logs = new ForwardLogProvider(manager);
+    context.subscriptions.push(logs, vscode.workspace.registerTextDocumentContentProvider(ForwardLogProvider.scheme, logs));
+    context.subscriptions.push(vscode.commands.registerCommand('local-dependency-forwarder.showLog', async (arg?: ForwardTreeNode | ForwardKey) => {
+        const key = arg && 'type' in arg ? (arg.type === 'forward' ? arg.key : undefined) : arg;
+        if (key) { await logs.show(key); }
+    }));
+
+    const runTreeAction = (action: (node: ForwardTreeNode) => Promise<void>) => async (node?: ForwardTreeNode) => {
+        if (!node) { return; }
+        try {
+            await action(node);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(String(e?.message ?? e));
+        }
+    };
+    context.subscriptions.push(
+        vscode.commands.registerCommand('local-dependency-forwarder.startForward', runTreeAction(async node => { if (node.type === 'forward') { await startForward(node.key); } })),
+        vscode.commands.registerCommand('local-dependency-forwarder.stopForward', runTreeAction(async node => { if (node.type === 'forward') { await manager.stop(node.key); } })),
+        vscode.commands.registerCommand('local-dependency-forwarder.restartForward', runTreeAction(async node => { if (node.type === 'forward') { await manager.restart(node.key); } })),
+        vscode.commands.registerCommand('local-dependency-forwarder.startEnvironment', runTreeAction(async node => { await startEnvironment(node.env.id); })),
+        vscode.commands.registerCommand('local-dependency-forwarder.stopEnvironment', runTreeAction(async node => { await manager.stopAllForEnv(node.env.id); }))
+    );
+
+    const connectionEnv = new ConnectionEnv(manager, context.environmentVariableCollection);
+    context.subscriptions.push(connectionEnv);
+
+    async function copyConnectionString(key: ForwardKey): Promise<void> {
+        const vars = Object.entries(connectionEnv.varsOf(key));
+        let value: string | undefined;
+        if (!vars.length && key.kind === 'remote') {
+            // Where the outside world reaches the local service, e.g. for a webhook URL
+            const r = findForwardItem(manager.getEnvironments().find(e => e.id === key.envId), key) as RemoteForward | undefined;
+            value = r ? `${r.sshHost}:${r.remotePort}` : undefined;
+        } else if (!vars.length) {
+            const port = manager.getLocalPort(key);
+            value = port !== undefined ? `127.0.0.1:${port}` : undefined;
+        } else if (vars.length === 1) {
+            value = vars[0][1];
+        } else {
+            const pick = await vscode.window.showQuickPick(vars.map(([name, v]) => ({ label: name, description: v, value: v })), { placeHolder: 'Connection string to copy' });
+            value = pick?.value;
+        }
+        if (value === undefined) { return; }
+        await vscode.env.clipboard.writeText(value);
+        vscode.window.setStatusBarMessage(`Copied ${value}`, 3000);
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('local-dependency-forwarder.copyConnectionString', runTreeAction(async node => { if (node.type === 'forward') { await copyConnectionString(node.key); } })),
+        vscode.commands.registerCommand('local-dependency-forwarder.writeEnvFile', async () => {
+            try {
+                const configured = vscode.workspace.getConfiguration('localDependencyForwarder').get<string>('envFile', '').trim();
+                // The active environment, unless several run and another one is picked
+                const running = connectionEnv.runningEnvironments();
+                const nameOf = (envId: string) => manager.getEnvironments().find(e => e.id === envId)?.name ?? envId;
+                let envId = running[0];
+                if (running.length > 1) {
+                    const pick = await vscode.window.showQuickPick(running.map((id, i) => ({ label: nameOf(id), description: i === 0 ? 'active' : undefined, id })), { placeHolder: 'Environment to write the variables of' });
+                    if (!pick) {
+                        return;
+                    }
+                    envId = pick.id;
+                }
+                const uri = await connectionEnv.writeEnvFile(configured || '.env', envId);
+                if (!uri) {
+                    vscode.window.showErrorMessage('Open a workspace folder to write an env file.');
+                    return;
+                }
+                const count = Object.keys(connectionEnv.runningVars(envId)).length;
+                vscode.window.showInformationMessage(`Wrote ${count} variable(s)${envId ? ` of ${nameOf(envId)}` : ''} to ${vscode.workspace.asRelativePath(uri)}.`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(String(e?.message ?? e));
+            }
+        })
+    );
+
+    context.subscriptions.push(manager.onDidFailSshAdd(async e => {
+        const env = manager.getEnvironments().find(x => x.id === e.envId);
+        const list = e.failures.map(f => `${f.file} (${f.reason})`).join(', ');
+        const choice = await vscode.window.showWarningMessage(`${env?.name ?? e.envId}: ssh-add failed for ${list}. Forwards start anyway, but ssh may not find the key.`, 'Show Output');
+        if (choice) { manager.showOutput(); }
+    }));
+
+    // Passphrases of every key file the config mentions, as remembered by the askpass bridge
+    context.subscriptions.push(vscode.commands.registerCommand('local-dependency-forwarder.forgetPassphrases', async () => {
+        const files = new Set<string>();
+        for (const env of manager.getEnvironments()) {
+            for (const key of env.sshAddKeys ?? []) { files.add(expandHome(key)); }
+            for (const kind of ['ssh', 'socks', 'remote'] as const) {
+                for (const item of forwardsOf(env, kind) as SshConnection[]) {
+                    if (item.identityFile) { files.add(expandHome(item.identityFile)); }
+                }
+            }
+        }
+        await askpass.forgetPassphrases([...files]);
+        vscode.window.showInformationMessage(`Forgot saved passphrases for ${files.size} key file(s).`);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('local-dependency-forwarder.openKnownHosts', async () => {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.file(knownHostsFile));
+        } catch {
+            vscode.window.showInformationMessage('No host keys have been trusted through Local Dependency Forwarder yet.');
+            return;
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(knownHostsFile));
+    }));
+
+    // Keybindings can pass the profile id as argument; without it a quick pick asks
+    context.subscriptions.push(
+        vscode.commands.registerCommand('local-dependency-forwarder.startProfile', async (arg?: unknown) => {
+            const id = typeof arg === 'string' ? arg : await pickProfile('Profile to start');
+            if (!id) { return; }
+            try {
+                await startProfile(id);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(String(e?.message ?? e));
+            }
+        }),
+        vscode.commands.registerCommand('local-dependency-forwarder.stopProfile', async (arg?: unknown) => {
+            const id = typeof arg === 'string' ? arg : await pickProfile('Profile to stop');
+            if (!id) { return; }
+            try {
+                await manager.stopProfile(id);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(String(e?.message ?? e));
+            }
+        })
+    );
+
+    // Command: Ensure Forwards - for tasks/extensions: executeCommand('local-dependency-forwarder.ensure', ['dev', 'dev/db'])
+    context.subscriptions.push(vscode.commands.registerCommand('local-dependency-forwarder.ensure', async (...args: unknown[]) => {
+        let refs = args.flat().filter((a): a is string => typeof a === 'string');
+        if (!refs.length) {
+            const picks = await vscode.window.showQuickPick(manager.getEnvironments().map(env => ({ label: env.name, description: env.id, ref: env.id })), { canPickMany: true, placeHolder: 'Environments to start and wait for' });
+            if (!picks?.length) { return []; }
+            refs = picks.map(p => p.ref);
+        }
+        // Callers with arguments get the failure as a rejection; from the palette it is shown instead
+        try {
+            await ensureForwards(manager, refs);
+        } catch (e: any) {
+            if (args.length) { throw e; }
+            vscode.window.showErrorMessage(String(e?.message ?? e));
+            return [];
+        }
+        return resolveForwardTargets(manager.getEnvironments(), refs);
+    }));
+    const debugProvider = new ForwardsDebugProvider(manager);
+    context.subscriptions.push(
+        debugProvider,
+        vscode.debug.registerDebugConfigurationProvider('*', debugProvider),
+        vscode.tasks.registerTaskProvider(ForwardsTaskProvider.type, new ForwardsTaskProvider(manager))
+    );
+
+    context.subscriptions.push(manager.onDidGiveUp(e => {
+        const id = `${e.key.envId}:${e.key.kind}:${e.key.id}`;
+        vscode.window.showWarningMessage(`Gave up reconnecting ${id} after ${e.attempts} attempt(s) (${e.reason}).`);
+    }));
 
     const disposable = vscode.commands.registerCommand('local-dependency-forwarder.openPanel', () => {
         // reload config each open
-        load().then(() => manager.setEnvironments(currentEnvs));
-        const webview = panelHost.show(wv => buildHtml(wv, context.extensionUri), () => {/* no-op */});
-        const configErrors = manager.validateConfigDuplicates();
-        if (configErrors.length) {
-            vscode.window.showErrorMessage('Config errors: ' + configErrors.join(' | '));
+        load().then(() => manager.setEnvironments(currentEnvs, currentProfiles)).catch(e => {
+            output.appendLine(`Config: reload failed (${String(e?.message ?? e)})`);
+        });
+        // an open panel keeps its timers and handlers; just bring it to front
+        if (panelHost.isOpen) {
+            panelHost.show(wv => buildHtml(wv, context.extensionUri), () => {});
+            return;
         }
+        // everything below lives as long as the panel
+        const panelSubscriptions: vscode.Disposable[] = [];
+        const webview = panelHost.show(wv => buildHtml(wv, context.extensionUri), () => {
+            for (const d of panelSubscriptions) { d.dispose(); }
+        });
+        diagnostics.refresh().then(async () => {
+            const count = diagnostics.errorCount();
+            if (!count) { return; }
+            const choice = await vscode.window.showErrorMessage(`Config has ${count} problem(s).`, 'Show Problems');
+            if (choice) { await vscode.commands.executeCommand('workbench.actions.view.problems'); }
+        });
         const post = (msg: any) => { void webview.postMessage(msg); };
-        const sendInit = () => post({ type: 'init', envs: manager.getEnvironments(), running: runningKeys(), occupied: occupiedPorts(), usage: portUsage() });
-        const sendStatus = () => post({ type: 'status', running: runningKeys(), occupied: occupiedPorts(), usage: portUsage() });
+        const sendInit = () => post({ type: 'init', envs: manager.getEnvironments(), running: runningKeys(), occupied: occupiedPorts(), usage: portUsage(), reconnecting: reconnecting(), stats: stats(), health: health(), failed: failed(), profiles: profiles() });
+        const sendStatus = () => post({ type: 'status', running: runningKeys(), occupied: occupiedPorts(), usage: portUsage(), reconnecting: reconnecting(), stats: stats(), health: health(), failed: failed(), profiles: profiles() });
+        // who else listens on configured ports, so the panel can explain a blocked toggle before it is clicked
+        const sendPorts = async () => {
+            const taken = new Set(occupiedPorts());
+            const ports = manager.getAllConfiguredPorts().filter(p => !taken.has(p));
+            try {
+                // Refreshed every 10s while open; owners already known are not looked up again
+                const owners = await inspectPorts(ports, true);
+                const external: { port: number; holder: string }[] = [];
+                for (const [port, list] of owners) {
+                    const others = list.filter(o => o.pid !== process.pid);
+                    if (others.length) { external.push({ port, holder: others.map(describeOwner).join(', ') }); }
+                }
+                post({ type: 'ports', external });
+            } catch {}
+        };
         // fire an eager init as a fallback
-        setTimeout(() => sendInit(), 50);
+        setTimeout(() => { sendInit(); void sendPorts(); }, 50);
         // subscribe to manager changes
-        const changeSub = manager.onDidChange(() => { sendStatus(); });
-        context.subscriptions.push({ dispose: () => (changeSub as any)?.dispose?.() });
-        // periodic health check to reflect crashed/closed forwards
-        const timer = setInterval(async () => { try { await manager.healthCheck(); } catch {} finally { sendStatus(); } }, 3000);
-        context.subscriptions.push({ dispose: () => clearInterval(timer) });
+        let portsTimer: NodeJS.Timeout | undefined;
+        panelSubscriptions.push(manager.onDidChange(() => {
+            sendStatus();
+            if (portsTimer) { clearTimeout(portsTimer); }
+            portsTimer = setTimeout(() => { void sendPorts(); }, 500);
+        }));
+        panelSubscriptions.push(manager.onDidChangeEnvironments(() => { sendInit(); }));
+        // traffic counters change without manager events; refresh them periodically
+        const statsTimer = setInterval(() => sendStatus(), 3000);
+        const externalTimer = setInterval(() => { void sendPorts(); }, 10000);
+        panelSubscriptions.push({ dispose: () => { clearInterval(statsTimer); clearInterval(externalTimer); if (portsTimer) { clearTimeout(portsTimer); } } });
         webview.onDidReceiveMessage(async (message: WebviewMessage) => {
             if (message.type === 'ready') {
                 sendInit();
+                void sendPorts();
                 return;
             }
             // @ts-ignore allow extra message type from webview
@@ -83,33 +396,48 @@ export async function activate(context: vscode.ExtensionContext) {
                 vscode.window.showInformationMessage(String(m.text || ''));
                 return;
             }
+            if (message.type === 'details') {
+                await details.show(message.key);
+                return;
+            }
+            if (message.type === 'log') {
+                await logs.show(message.key);
+                return;
+            }
+            if (message.type === 'copy') {
+                await copyConnectionString(message.key);
+                return;
+            }
             if (message.type === 'toggle') {
                 const key: ForwardKey = message.key;
                 try {
                     if (manager.isRunning(key)) {
                         await manager.stop(key);
                     } else {
-                        await manager.start(key);
+                        await startForward(key);
+                    }
+                } catch (e: any) {
+                    vscode.window.showErrorMessage(String(e?.message ?? e));
+                }
+                post({ type: 'status', running: runningKeys(), occupied: occupiedPorts(), usage: portUsage(), reconnecting: reconnecting(), stats: stats(), health: health(), failed: failed(), profiles: profiles() });
+                return;
+            }
+            if (message.type === 'toggleProfile') {
+                try {
+                    if (message.start) {
+                        await startProfile(message.id);
+                    } else {
+                        await manager.stopProfile(message.id);
                     }
                 } catch (e: any) {
                     vscode.window.showErrorMessage(String(e?.message ?? e));
                 }
-                post({ type: 'status', running: runningKeys(), occupied: occupiedPorts(), usage: portUsage() });
+                sendStatus();
                 return;
             }
             if (message.type === 'toggleAll') {
                 if (message.start) {
-                    const env = manager.getEnvironments().find(e => e.id === message.envId);
-                    if (env) {
-                        const tasks: Promise<any>[] = [];
-                        for (const t of env.sshTunnels) {
-                            tasks.push(manager.start({ envId: env.id, kind: 'ssh', id: t.id }).catch(() => {}));
-                        }
-                        for (const f of env.k8sForwards) {
-                            tasks.push(manager.start({ envId: env.id, kind: 'k8s', id: f.id }).catch(() => {}));
-                        }
-                        await Promise.allSettled(tasks);
-                    }
+                    await startEnvironment(message.envId);
                 } else {
                     await manager.stopAllForEnv(message.envId);
                 }
@@ -130,7 +458,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 sendStatus();
                 return;
             }
-        }, undefined, context.subscriptions);
+        }, undefined, panelSubscriptions);
     });
 
     context.subscriptions.push(disposable);
@@ -169,7 +497,77 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.showErrorMessage(String(e?.message ?? e));
         }
     }));
+
+    // Other extensions: vscode.extensions.getExtension(...).activate() resolves to this
+    const api = new ForwarderApi(manager);
+    context.subscriptions.push(api);
+    return apiExports(api);
+}
+
+async function confirmHostKey(prompt: HostKeyPrompt): Promise<boolean> {
+    const detail = prompt.reason === 'changed'
+        ? `The host key of ${prompt.host} does not match the recorded one. This can mean someone is intercepting the connection, or the server was reinstalled.\n\nNew fingerprints:\n${prompt.fingerprints.join('\n')}`
+        : `${prompt.host} is not a known host. Verify its fingerprints before trusting it:\n\n${prompt.fingerprints.join('\n')}`;
+    const trust = prompt.reason === 'changed' ? 'Replace Recorded Key' : 'Trust and Connect';
+    const choice = await vscode.window.showWarningMessage(
+        prompt.reason === 'changed' ? `Host key of ${prompt.host} has CHANGED` : `Unknown host key for ${prompt.host}`,
+        { modal: true, detail },
+        trust
+    );
+    return choice === trust;
+}
+
+// ssh prompts relayed by the askpass bridge; undefined means cancelled (or "no")
+async function askSsh(prompt: AskpassPrompt): Promise<string | undefined> {
+    if (prompt.kind === 'confirm') {
+        const choice = await vscode.window.showWarningMessage(prompt.text, { modal: true, detail: `Asked by ${prompt.label}` }, 'Yes');
+        return choice ? 'yes' : undefined;
+    }
+    if (prompt.kind === 'notice') {
+        void vscode.window.showInformationMessage(`${prompt.label}: ${prompt.text}`);
+        return '';
+    }
+    return await vscode.window.showInputBox({
+        title: `ssh: ${prompt.label}`,
+        prompt: prompt.text,
+        password: prompt.kind !== 'code',
+        ignoreFocusOut: true
+    });
+}
+
+async function restoreForwards(context: vscode.ExtensionContext, manager: ForwardManager): Promise<void> {
+    const saved = context.workspaceState.get<ForwardKey[]>(runningStateKey, []);
+    const known = saved.filter(k => {
+        const env = manager.getEnvironments().find(e => e.id === k.envId);
+        return !!findForwardItem(env, k);
+    });
+    if (!known.length) { return; }
+    showStartReport('Failed to restore forwards', await manager.startWithDependencies(known));
+}
+
+function keyId(key: ForwardKey): string {
+    return `${key.envId}:${key.kind}:${key.id}`;
+}
+
+// e.g. "up (3/3)", "1/3 running" or "2/2 running, unknown: ph/payment"
+function describeProfileStatus(status: ProfileStatus): string {
+    const count = `${status.running}/${status.keys.length}`;
+    const base = status.up ? `up (${count})` : status.running && status.running === status.keys.length ? `${count} running, reconnecting` : `${count} running`;
+    return status.unknown.length ? `${base}, unknown: ${status.unknown.join(', ')}` : base;
+}
+
+// One error toast naming the forwards that failed and the ones they blocked
+function showStartReport(title: string, report: StartReport) {
+    const problems = describeStartReport(report);
+    if (problems) {
+        vscode.window.showErrorMessage(`${title}: ${problems}`);
+    }
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {}
+export async function deactivate() {
+    // Keep the persisted set intact; stopping children here is not a user choice
+    deactivating = true;
+    await activeManager?.stopAll();
+    activeManager = undefined;
+}
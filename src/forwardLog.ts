@@ -0,0 +1,81 @@
+import { ForwardKind } from './config';
+
+// The last lines ssh/kubectl printed for each forward, across restarts
+export class ForwardLogBuffer {
+  private buffers = new Map<string, { lines: string[]; written: number; partial: string }>();
+
+  constructor(private capacity = 1000) {}
+
+  // Output arrives in chunks; a line is complete once its newline arrives
+  public append(id: string, text: string) {
+    const buffer = this.buffers.get(id) ?? { lines: [], written: 0, partial: '' };
+    this.buffers.set(id, buffer);
+    const parts = (buffer.partial + text).split(/\r?\n/);
+    buffer.partial = parts.pop() ?? '';
+    const time = new Date().toTimeString().slice(0, 8);
+    for (const line of parts) {
+      if (!line) { continue; }
+      buffer.lines.push(`${time} ${line}`);
+      buffer.written++;
+    }
+    if (buffer.lines.length > this.capacity) { buffer.lines.splice(0, buffer.lines.length - this.capacity); }
+  }
+
+  public lines(id: string): string[] {
+    const buffer = this.buffers.get(id);
+    if (!buffer) { return []; }
+    return buffer.partial ? [...buffer.lines, buffer.partial] : [...buffer.lines];
+  }
+
+  // Count of lines ever appended; lines since a mark are the ones a run printed
+  public mark(id: string): number {
+    return this.buffers.get(id)?.written ?? 0;
+  }
+
+  public since(id: string, mark: number): string[] {
+    const buffer = this.buffers.get(id);
+    if (!buffer) { return []; }
+    const count = Math.min(buffer.written - mark, buffer.lines.length);
+    const lines = count > 0 ? buffer.lines.slice(-count) : [];
+    return buffer.partial ? [...lines, buffer.partial] : lines;
+  }
+}
+
+type ErrorPattern = { kinds: readonly ForwardKind[]; test: RegExp; reason: (m: RegExpExecArray) => string };
+
+const sshKinds: readonly ForwardKind[] = ['ssh', 'socks', 'remote'];
+const allKinds: readonly ForwardKind[] = ['ssh', 'k8s', 'socks', 'remote'];
+
+// In order of precedence: ssh prints follow-up lines such as "Could not request local forwarding" after the cause
+const errorPatterns: ErrorPattern[] = [
+  { kinds: sshKinds, test: /Could not resolve hostname ([^:\s]+)/i, reason: m => `DNS lookup failed for ${m[1]}` },
+  { kinds: sshKinds, test: /Permission denied \(([^)]+)\)/, reason: m => `authentication denied (${m[1]})` },
+  { kinds: sshKinds, test: /Host key verification failed/, reason: () => 'host key verification failed' },
+  { kinds: sshKinds, test: /connect to host (\S+) port (\d+): (No route to host|Network is unreachable|Connection timed out|Operation timed out)/i, reason: m => `host ${m[1]}:${m[2]} unreachable (${m[3].toLowerCase()})` },
+  { kinds: sshKinds, test: /connect to host (\S+) port (\d+): Connection refused/i, reason: m => `host ${m[1]}:${m[2]} refused the ssh connection` },
+  { kinds: sshKinds, test: /Connection (?:closed by|reset by) (\S+)/, reason: m => `connection closed by ${m[1]}` },
+  // ExitOnForwardFailure makes ssh quit when it can't listen
+  { kinds: sshKinds, test: /bind \[?([^\]\s]*)\]?:(\d+): Address already in use/, reason: m => `local port ${m[2]} is already in use (ExitOnForwardFailure)` },
+  { kinds: sshKinds, test: /cannot listen to port: (\d+)/, reason: m => `local port ${m[1]} could not be opened (ExitOnForwardFailure)` },
+  { kinds: sshKinds, test: /remote port forwarding failed for listen port (\d+)/, reason: m => `remote port ${m[1]} is taken or not allowed on the ssh host` },
+  { kinds: sshKinds, test: /open failed: administratively prohibited/, reason: () => 'the ssh server does not allow this forward (AllowTcpForwarding)' },
+  { kinds: sshKinds, test: /open failed: connect failed: (.+)/, reason: m => `the remote port refused the connection (${m[1].trim()})` },
+  { kinds: ['k8s'], test: /Unauthorized|You must be logged in to the server|the server has asked for the client to provide credentials|token (?:has )?expired|credentials (?:have )?expired|refresh token/i, reason: () => 'Kubernetes credentials expired or were rejected; log in again' },
+  { kinds: ['k8s'], test: /pod is not running|unable to forward port because pod is not running|pods? "?([\w.-]+)"? not found|does not have a host assigned/i, reason: m => m[1] ? `pod ${m[1]} is not running` : 'pod is not running' },
+  { kinds: ['k8s'], test: /error forwarding port (\d+) to pod.*connection refused/i, reason: m => `nothing listens on port ${m[1]} in the pod (connection refused)` },
+  { kinds: ['k8s'], test: /unable to listen on port (\d+)|bind: address already in use/i, reason: m => m[1] ? `local port ${m[1]} is already in use` : 'local port is already in use' },
+  { kinds: ['k8s'], test: /Unable to connect to the server: (.+)/, reason: m => `Kubernetes API unreachable (${m[1].trim()})` },
+  { kinds: allKinds, test: /spawn (\S+) ENOENT/, reason: m => `${m[1]} was not found on PATH` }
+];
+
+// A readable reason for a failure from what the process printed, or undefined when nothing is recognized
+export function classifyForwardError(kind: ForwardKind, lines: string[]): string | undefined {
+  for (const pattern of errorPatterns) {
+    if (!pattern.kinds.includes(kind)) { continue; }
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const m = pattern.test.exec(lines[i]);
+      if (m) { return pattern.reason(m); }
+    }
+  }
+  return undefined;
+}
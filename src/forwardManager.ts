@@ -1,40 +1,386 @@
 import { ChildProcess, spawn } from 'child_process';
 import * as fs from 'fs';
-import * as os from 'os';
-import * as path from 'path';
 import * as net from 'net';
-import * as vscode from 'vscode';
-import { EnvironmentConfig, ForwardKey } from './config';
+import { EnvironmentConfig, ForwardItem, ForwardKey, ForwardKind, HostKeyPolicy, K8sForward, LocalPort, Probe, ProfileConfig, RemoteForward, RestartPolicy, SocksProxy, SshConnection, SshTunnel, expandHome, findForwardItem, forwardKeysOf, k8sTargetRef, parseLocalPort, resolveForwardRef, resolveForwardTargets, resolveProfile } from './config';
+import { findDuplicatePorts } from './validation';
+import { LocalProxy, TrafficStats, findFreePort, isPortFree } from './localProxy';
+import { OutputTraffic, connectionPort } from './outputTraffic';
+import { PortOwner, describeOwner, inspectPorts } from './portInspector';
+import { ProbeResult, runProbe } from './probes';
+import { HostKeyVerifier } from './hostKeys';
+import { Emitter, Logger } from './events';
+import { ForwardLogBuffer, classifyForwardError } from './forwardLog';
+import { MasterSpec, MuxSpec, SshMaster, SshMultiplexer, controlArgs, masterArgs, masterLabel } from './sshMultiplexer';
 
 type RunningProc = {
   key: ForwardKey;
-  process: ChildProcess;
+  // Unset for multiplexed ssh forwards, which have no process of their own
+  process?: ChildProcess;
   command: string;
   args: string[];
+  // 0 for remote forwards, which don't listen locally
   localPort: number;
+  // The config's localPort value this port was picked for; a different value means the forward must restart
+  configuredPort: LocalPort;
   startedAt: number;
+  // Restart attempt that spawned this process; 0 for a user-initiated start
+  attempt: number;
+  // Set once exit/error/health failure has been handled, so it is only handled once
+  exited?: boolean;
+  // Pending respawn while the entry waits out its backoff delay
+  restartTimer?: NodeJS.Timeout;
+  // Proxy mode: we own localPort and the child listens on upstreamPort; both survive restarts
+  proxy?: LocalProxy;
+  // Without the proxy: connections counted from the child's (or shared connection's) output; not for remote forwards
+  traffic?: OutputTraffic;
+  // Label selector forwards: the selector and the pod it was resolved to for this process
+  selector?: string;
+  resolvedPod?: string;
+  // Remote forwards: set once ssh reports the listener on the remote host is up
+  remoteListening?: boolean;
+  // Multiplexed ssh forwards: what to add to the shared connection, and the connection once it was added
+  muxSpec?: MuxSpec;
+  mux?: { master: SshMaster; forwardArgs: string[]; detach: () => void };
+  // Position in the forward's log where this process started, so failures are explained from its own output
+  logMark: number;
+  // Why the previous process failed, while restarting
+  lastError?: string;
+};
+
+type ForwardSpec = { command: string; args: string[]; localPort: number; proxied: boolean; selector?: string; mux?: MuxSpec };
+
+export type GiveUpEvent = { key: ForwardKey; attempts: number; reason: string };
+
+// Where a forward is at, as getStatus() reports it
+export type ForwardStatus = 'stopped' | 'running' | 'unhealthy' | 'reconnecting' | 'failed';
+
+// Output of a forward's ssh/kubectl or a lifecycle line about it; text may end in the middle of a line
+export type ForwardLogEvent = { key: ForwardKey; text: string };
+
+// Keys of an environment that ssh-add could not add, with a short reason each
+export type SshAddFailureEvent = { envId: string; failures: { file: string; reason: string }[] };
+
+// Outcome of starting several forwards; blocked ones were not started because a dependency failed
+export type StartReport = {
+  started: ForwardKey[];
+  failed: { key: ForwardKey; error: string }[];
+  blocked: { key: ForwardKey; by: ForwardKey; error: string }[];
+};
+
+// One line naming the forwards that failed and the ones they blocked; empty when everything started
+export function describeStartReport(report: StartReport): string {
+  const id = (key: ForwardKey) => `${key.envId}:${key.kind}:${key.id}`;
+  const parts = report.failed.map(f => `${id(f.key)} failed (${f.error})`);
+  const blockedBy = new Map<string, string[]>();
+  for (const b of report.blocked) {
+    const list = blockedBy.get(id(b.by)) ?? [];
+    list.push(b.key.id);
+    blockedBy.set(id(b.by), list);
+  }
+  for (const [by, ids] of blockedBy) { parts.push(`${ids.join(', ')} blocked by ${by}`); }
+  return parts.join(' | ');
+}
+
+// Delay before restart attempt n (from 1): exponential backoff with equal jitter, half fixed and half random
+export function backoffDelay(attempt: number, policy: Required<RestartPolicy>): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(base / 2 + Math.random() * base / 2);
+}
+
+// How much of a profile runs; it is up once every forward it names runs and none is reconnecting
+export type ProfileStatus = {
+  profile: ProfileConfig;
+  keys: ForwardKey[];
+  running: number;
+  up: boolean;
+  // References that match no forward in the current config
+  unknown: string[];
+};
+
+class BlockedError extends Error {
+  constructor(public readonly by: ForwardKey, message: string) {
+    super(message);
+  }
+}
+
+export type ForwardInfo = {
+  key: ForwardKey;
+  command: string;
+  args: string[];
+  localPort: number;
+  // Port the ssh/kubectl child listens on; differs from localPort in proxy mode
+  upstreamPort: number;
+  pid?: number;
+  startedAt: number;
+  attempt: number;
+  // Why the last run ended, from its output, while it is being restarted
+  lastError?: string;
+  // Byte counts need proxy mode, where connections pass through the extension; otherwise connections from the output
+  stats?: TrafficStats;
+  // Multiplexed ssh forwards: the shared connection's control socket and ssh arguments; pid is that connection's
+  master?: { socket: string; args: string[] };
+};
+
+// Latest health check result of a running forward; detail comes from the probe, e.g. "redis PONG"
+export type ForwardHealth = { key: string; ok: boolean; detail: string; checkedAt: number };
+
+const defaultReadinessTimeoutMs = 15000;
+
+// -o options every tunnel gets unless its sshOptions override them
+const defaultSshOptions: Record<string, string> = {
+  ExitOnForwardFailure: 'yes',
+  ServerAliveInterval: '60',
+  ServerAliveCountMax: '3',
+  // Avoid impacting other tunnels if user has ControlMaster enabled in ssh config
+  ControlMaster: 'no',
+  ControlPersist: 'no'
+};
+
+// Defaults with overrides applied in order; ssh option names are case-insensitive, so an override replaces any spelling
+function mergeSshOptions(...overrides: (Record<string, string | number | boolean> | undefined)[]): Record<string, string> {
+  const merged: Record<string, string> = { ...defaultSshOptions };
+  for (const [name, value] of overrides.flatMap(o => Object.entries(o ?? {}))) {
+    for (const existing of Object.keys(merged)) {
+      if (existing.toLowerCase() === name.toLowerCase()) { delete merged[existing]; }
+    }
+    merged[name] = typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+  }
+  return merged;
+}
+
+// Connection flags shared by the tunnel command and host key lookups
+function sshConnectionArgs(item: SshConnection): string[] {
+  return [
+    ...(item.port !== undefined ? ['-p', String(item.port)] : []),
+    ...(item.user ? ['-l', item.user] : []),
+    ...(item.identityFile ? ['-i', expandHome(item.identityFile)] : []),
+    ...(item.proxyJump?.length ? ['-J', item.proxyJump.join(',')] : [])
+  ];
+}
+
+type ToolResult = { code: number | null; stdout: string; stderr: string; error?: NodeJS.ErrnoException };
+
+// Runs ssh-add/ssh-keygen to completion; never rejects, failures are in the result
+function runSshTool(command: string, args: string[], env?: NodeJS.ProcessEnv): Promise<ToolResult> {
+  return new Promise(resolve => {
+    const proc = spawn(command, args, { env, windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    const out: Buffer[] = [];
+    const err: Buffer[] = [];
+    proc.stdout?.on('data', d => out.push(Buffer.from(d)));
+    proc.stderr?.on('data', d => err.push(Buffer.from(d)));
+    const result = (code: number | null, error?: NodeJS.ErrnoException) =>
+      resolve({ code, stdout: Buffer.concat(out).toString('utf8'), stderr: Buffer.concat(err).toString('utf8').trim(), error });
+    proc.on('error', e => result(null, e));
+    proc.on('close', code => result(code));
+  });
+}
+
+// SHA256 fingerprint as ssh-add -l prints it; the public key is read from file.pub or the key file itself, without a passphrase
+async function keyFingerprint(file: string): Promise<string | undefined> {
+  for (const source of [`${file}.pub`, file]) {
+    if (!fs.existsSync(source)) { continue; }
+    const result = await runSshTool('ssh-keygen', ['-l', '-E', 'sha256', '-f', source], { ...process.env, SSH_ASKPASS_REQUIRE: 'never' });
+    const fingerprint = result.code === 0 ? result.stdout.split(/\s+/)[1] : undefined;
+    if (fingerprint) { return fingerprint; }
+  }
+  return undefined;
+}
+
+// A short reason for an ssh-add failure; the full output goes to the output channel
+function describeSshAddError(result: ToolResult): string {
+  if (result.error?.code === 'ENOENT') { return 'ssh-add was not found on PATH'; }
+  if (result.error) { return String(result.error.message); }
+  const text = result.stderr;
+  if (/Could not open a connection to your authentication agent|Error connecting to agent|agent refused/i.test(text)) {
+    return process.env.SSH_AUTH_SOCK ? `the ssh-agent at ${process.env.SSH_AUTH_SOCK} is not reachable` : 'no ssh-agent is running (SSH_AUTH_SOCK is not set)';
+  }
+  if (/UNPROTECTED PRIVATE KEY FILE|bad permissions/i.test(text)) { return 'the key file is readable by others; run chmod 600 on it'; }
+  if (/incorrect passphrase|bad passphrase/i.test(text)) { return 'wrong passphrase'; }
+  if (/invalid format|error in libcrypto|not a key/i.test(text)) { return 'not a private key ssh-add can read'; }
+  const last = text.split(/\r?\n/).filter(Boolean).pop();
+  // Cancelling the passphrase prompt leaves ssh-add without anything to say
+  return last ?? (result.code === 1 ? 'no passphrase was entered' : `ssh-add exited with code ${result.code}`);
+}
+
+// -L, -D or -R and its spec; listenPort is where ssh binds locally (the proxy's upstream port in proxy mode)
+function sshForwardArgs(kind: ForwardKind, item: SshTunnel | SocksProxy | RemoteForward, listenPort: number, proxied: boolean): string[] {
+  if (kind === 'remote') {
+    const r = item as RemoteForward;
+    return ['-R', `${r.remoteBindAddress ? `${r.remoteBindAddress}:` : ''}${r.remotePort}:${r.localHost ?? 'localhost'}:${r.localPort}`];
+  }
+  // In proxy mode the extension binds bindAddress itself and ssh stays on loopback
+  const local = item as SshTunnel | SocksProxy;
+  const bind = local.bindAddress && !proxied ? `${local.bindAddress}:` : '';
+  if (kind === 'socks') { return ['-D', `${bind}${listenPort}`]; }
+  const t = item as SshTunnel;
+  return ['-L', `${bind}${listenPort}:${t.remoteHost}:${t.remotePort}`];
+}
+
+const kindNames: Record<ForwardKind, string> = {
+  ssh: 'ssh tunnel',
+  k8s: 'k8s forward',
+  socks: 'SOCKS proxy',
+  remote: 'remote forward'
+};
+
+function fixedPort(value: LocalPort): number {
+  return typeof value === 'number' ? value : NaN;
+}
+
+export type ForwardManagerOptions = {
+  output: Logger;
+  // Checks first-hop host keys before tunnels start; without it ssh applies the policy on its own
+  hostKeys?: HostKeyVerifier;
+  // Environment for ssh and ssh-add, e.g. to show their password and passphrase prompts in VS Code (AskpassBridge);
+  // without it they can only prompt on a terminal. rejected() hears of ssh that was denied after asking
+  askpass?: { env(label: string): NodeJS.ProcessEnv; rejected?(label: string): Promise<void> };
+  profiles?: ProfileConfig[];
+};
+
+const defaultRestartPolicy: Required<RestartPolicy> = {
+  mode: 'never',
+  maxRetries: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
 };
 
 export class ForwardManager {
   private processes = new Map<string, RunningProc>();
-  private output: vscode.OutputChannel;
-  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+  private output: Logger;
+  private hostKeys?: HostKeyVerifier;
+  private askpass?: ForwardManagerOptions['askpass'];
+  private profiles: ProfileConfig[];
+  private onDidChangeEmitter = new Emitter<void>();
   public readonly onDidChange = this.onDidChangeEmitter.event;
+  private onDidChangeEnvironmentsEmitter = new Emitter<void>();
+  public readonly onDidChangeEnvironments = this.onDidChangeEnvironmentsEmitter.event;
+  private onDidGiveUpEmitter = new Emitter<GiveUpEvent>();
+  public readonly onDidGiveUp = this.onDidGiveUpEmitter.event;
+  private onDidLogEmitter = new Emitter<ForwardLogEvent>();
+  public readonly onDidLog = this.onDidLogEmitter.event;
+  private logs = new ForwardLogBuffer();
+  private onDidFailSshAddEmitter = new Emitter<SshAddFailureEvent>();
+  public readonly onDidFailSshAdd = this.onDidFailSshAddEmitter.event;
   private portFailureCounts = new Map<string, number>();
+  private health = new Map<string, ForwardHealth>();
+  private healthChecking = false;
+  // Forwards that went down without being stopped by the user, with the reason; cleared on the next start/stop
+  private failures = new Map<string, string>();
+  private sshAdding = new Map<string, Promise<void>>();
+  // Starts still on their way to a process, by key id; a second start of the same forward joins the first
+  private starting = new Map<string, Promise<void>>();
+  // Exclusive groups whose previous environment is being stopped, so the new one's forwards wait for its ports
+  private switching = new Map<string, { envId: string; task: Promise<void> }>();
+  private mux: SshMultiplexer;
   private readonly healthGraceMs = 20000; // allow startup time before strict health checks
 
-  constructor(private envs: EnvironmentConfig[]) {
-    this.output = vscode.window.createOutputChannel('Local Dependency Forwarder');
+  constructor(private envs: EnvironmentConfig[], options: ForwardManagerOptions) {
+    this.output = options.output;
+    this.hostKeys = options.hostKeys;
+    this.askpass = options.askpass;
+    this.profiles = options.profiles ?? [];
+    this.mux = new SshMultiplexer(line => this.output.appendLine(line), label => this.askpass?.env(label), (socket, line) => this.logMuxOutput(socket, line));
   }
 
-  public setEnvironments(envs: EnvironmentConfig[]) {
+  // Replace the config and reconcile running forwards: removed ones are stopped, ones whose command changed are restarted
+  public async setEnvironments(envs: EnvironmentConfig[], profiles = this.profiles): Promise<{ restarted: ForwardKey[]; stopped: ForwardKey[]; failed: { key: ForwardKey; error: string }[] }> {
     this.envs = envs;
+    this.profiles = profiles;
+    const restarted: ForwardKey[] = [];
+    const stopped: ForwardKey[] = [];
+    const failed: { key: ForwardKey; error: string }[] = [];
+    for (const p of [...this.processes.values()]) {
+      const env = this.envs.find(e => e.id === p.key.envId);
+      let spec: ForwardSpec | undefined;
+      const samePort = this.findForward(p.key)?.localPort === p.configuredPort;
+      try { spec = env ? this.buildSpec(env, p.key, p.proxy?.upstreamPort, p.resolvedPod, samePort ? p.localPort : undefined) : undefined; } catch { spec = undefined; }
+      if (!spec) {
+        await this.stop(p.key);
+        stopped.push(p.key);
+        this.output.appendLine(`Config: ${this.keyToId(p.key)} removed from config, stopped.`);
+      } else if (spec.command !== p.command || spec.localPort !== p.localPort || spec.proxied !== !!p.proxy || spec.selector !== p.selector || spec.args.join('\0') !== p.args.join('\0')) {
+        await this.stop(p.key);
+        restarted.push(p.key);
+        this.output.appendLine(`Config: ${this.keyToId(p.key)} definition changed, restarting.`);
+      }
+    }
+    // Start after all stale ones are stopped, so forwards that swapped ports don't collide
+    for (const key of restarted) {
+      try {
+        await this.start(key);
+      } catch (e: any) {
+        failed.push({ key, error: String(e?.message ?? e) });
+      }
+    }
+    this.onDidChangeEnvironmentsEmitter.fire();
+    return { restarted, stopped, failed };
+  }
+
+  public showOutput() {
+    this.output.show?.(true);
+  }
+
+  // What the forward's ssh/kubectl printed, newest last, with lifecycle lines such as Started/Stopped
+  public getLog(key: ForwardKey): string[] {
+    return this.logs.lines(this.keyToId(key));
+  }
+
+  // Goes to the shared output channel and to the forward's own log
+  private logForward(key: ForwardKey, text: string) {
+    this.output.append(text);
+    this.logs.append(this.keyToId(key), text);
+    this.onDidLogEmitter.fire({ key, text });
+  }
+
+  // A shared connection's output goes to the output channel once and into the log of each forward on it;
+  // lines about a connection name its listening port and only go to that forward
+  private logMuxOutput(socket: string, line: string) {
+    this.output.append(`${line}\n`);
+    const port = connectionPort(line);
+    for (const p of this.processes.values()) {
+      if (!p.muxSpec || p.exited || this.mux.socketFor(p.muxSpec.master) !== socket) { continue; }
+      if (port !== undefined && port !== this.upstreamPortOf(p)) { continue; }
+      this.logs.append(this.keyToId(p.key), `${line}\n`);
+      this.onDidLogEmitter.fire({ key: p.key, text: `${line}\n` });
+      p.traffic?.append(`${line}\n`);
+    }
+  }
+
+  // A readable reason from the output of the failed process, or the raw one (e.g. code=255)
+  private explainFailure(entry: RunningProc, reason: string): string {
+    const lines = [...this.logs.since(this.keyToId(entry.key), entry.logMark), reason];
+    return classifyForwardError(entry.key.kind, lines) ?? reason;
   }
 
   public getEnvironments(): EnvironmentConfig[] {
     return this.envs;
   }
 
+  public getProfiles(): ProfileConfig[] {
+    return this.profiles;
+  }
+
+  public getProfileStatus(profile: ProfileConfig): ProfileStatus {
+    const { keys, unknown } = resolveProfile(this.envs, profile);
+    const running = keys.filter(k => this.isRunning(k));
+    const settled = running.every(k => !this.processes.get(this.keyToId(k))?.attempt);
+    return { profile, keys, running: running.length, up: keys.length > 0 && running.length === keys.length && settled && !unknown.length, unknown };
+  }
+
+  // Starts the profile's forwards with their dependencies; unknown references are left to the config diagnostics
+  public async startProfile(id: string): Promise<StartReport> {
+    const profile = this.profiles.find(p => p.id === id);
+    if (!profile) { throw new Error(`Unknown profile '${id}'`); }
+    return this.startWithDependencies(resolveProfile(this.envs, profile).keys);
+  }
+
+  // Stops exactly the forwards the profile names, also when another profile shares them
+  public async stopProfile(id: string): Promise<void> {
+    const profile = this.profiles.find(p => p.id === id);
+    if (!profile) { throw new Error(`Unknown profile '${id}'`); }
+    for (const key of resolveProfile(this.envs, profile).keys) { await this.stop(key); }
+  }
+
   public async ensureSshKeys(envId: string): Promise<void> {
     const env = this.envs.find(e => e.id === envId);
     if (!env) return;
@@ -45,139 +391,696 @@ export class ForwardManager {
     return this.processes.has(this.keyToId(key));
   }
 
+  public getFailed(): { key: string; reason: string }[] {
+    return Array.from(this.failures.entries(), ([key, reason]) => ({ key, reason }));
+  }
+
+  // With the reason when it is unhealthy, reconnecting or failed
+  public getStatus(key: ForwardKey): { status: ForwardStatus; detail?: string } {
+    const id = this.keyToId(key);
+    const p = this.processes.get(id);
+    if (!p) {
+      const failure = this.failures.get(id);
+      return failure ? { status: 'failed', detail: failure } : { status: 'stopped' };
+    }
+    if (p.attempt > 0) { return { status: 'reconnecting', detail: p.lastError }; }
+    const health = this.health.get(id);
+    return health && !health.ok ? { status: 'unhealthy', detail: health.detail } : { status: 'running' };
+  }
+
+  public isFailed(key: ForwardKey): boolean {
+    return this.failures.has(this.keyToId(key));
+  }
+
+  public getInfo(key: ForwardKey): ForwardInfo | undefined {
+    const p = this.processes.get(this.keyToId(key));
+    if (!p) { return undefined; }
+    return {
+      key: p.key,
+      command: p.command,
+      args: p.args,
+      localPort: p.localPort,
+      upstreamPort: this.upstreamPortOf(p),
+      pid: p.restartTimer ? undefined : p.mux?.master.process?.pid ?? p.process?.pid,
+      startedAt: p.startedAt,
+      attempt: p.attempt,
+      lastError: p.lastError,
+      stats: p.proxy?.getStats() ?? p.traffic?.getStats(),
+      master: p.muxSpec ? this.masterInfo(p.muxSpec) : undefined
+    };
+  }
+
+  private masterInfo(spec: MuxSpec): { socket: string; args: string[] } {
+    const socket = this.mux.socketFor(spec.master);
+    return { socket, args: masterArgs(socket, spec.master) };
+  }
+
+  // The command a stopped forward would be started with; auto/range ports and selector pods are only known at start
+  public previewCommand(key: ForwardKey): { command: string; args: string[]; master?: { socket: string; args: string[] } } | undefined {
+    const env = this.envs.find(e => e.id === key.envId);
+    const item = this.findForward(key);
+    if (!env || !item || typeof item.localPort !== 'number') { return undefined; }
+    try {
+      const spec = this.buildSpec(env, key);
+      return spec.selector ? undefined : { command: spec.command, args: spec.args, master: spec.mux ? this.masterInfo(spec.mux) : undefined };
+    } catch {
+      return undefined;
+    }
+  }
+
+  public getStats(key: ForwardKey): TrafficStats | undefined {
+    const p = this.processes.get(this.keyToId(key));
+    return p?.proxy?.getStats() ?? p?.traffic?.getStats();
+  }
+
+  public getAllStats(): { key: string; stats: TrafficStats }[] {
+    const list: { key: string; stats: TrafficStats }[] = [];
+    for (const [id, p] of this.processes.entries()) {
+      const stats = p.proxy?.getStats() ?? p.traffic?.getStats();
+      if (stats) {
+        list.push({ key: id, stats });
+      }
+    }
+    return list;
+  }
+
+  public getRunningKeys(): ForwardKey[] {
+    return Array.from(this.processes.values(), p => p.key);
+  }
+
+  public getHealth(): ForwardHealth[] {
+    return [...this.health.values()].filter(h => this.processes.has(h.key));
+  }
+
+  public getHealthOf(key: ForwardKey): ForwardHealth | undefined {
+    return this.processes.has(this.keyToId(key)) ? this.health.get(this.keyToId(key)) : undefined;
+  }
+
+  public getReconnecting(): { key: string; attempt: number; reason?: string }[] {
+    const list: { key: string; attempt: number; reason?: string }[] = [];
+    for (const [id, p] of this.processes.entries()) {
+      if (p.attempt > 0) { list.push({ key: id, attempt: p.attempt, reason: p.lastError }); }
+    }
+    return list;
+  }
+
   public async start(key: ForwardKey): Promise<void> {
     if (this.isRunning(key)) {
       return;
     }
+    // Toggles, tasks and launch configs can ask for the same forward at once; only one may spawn
+    const id = this.keyToId(key);
+    const pending = this.starting.get(id);
+    if (pending) {
+      return await pending;
+    }
+    const task = this.startProcess(key).finally(() => this.starting.delete(id));
+    this.starting.set(id, task);
+    await task;
+  }
+
+  private async startProcess(key: ForwardKey): Promise<void> {
+    this.failures.delete(this.keyToId(key));
     const env = this.envs.find(e => e.id === key.envId);
     if (!env) {
       throw new Error(`Unknown env ${key.envId}`);
     }
+    await this.switchExclusiveGroup(env);
+
+    const sshItem = key.kind !== 'k8s' ? findForwardItem(env, key) as SshConnection | undefined : undefined;
+    const master = sshItem ? this.masterSpec(env, sshItem) : undefined;
+    // Joining a live shared connection needs neither keys nor a host key check
+    const joining = !!master && this.mux.isConnected(master);
 
     // Best effort: add configured ssh keys to agent each time
-    await this.addSshKeysIfPresent(env);
+    if (!joining) { await this.addSshKeysOnce(env); }
 
-    if (key.kind === 'ssh') {
-      const item = env.sshTunnels.find(t => t.id === key.id);
-      if (!item) throw new Error(`Unknown ssh tunnel ${key.id}`);
-      // port conflict check (running). Prune stale entries first.
-      if (this.findByPort(item.localPort)) {
-        await this.pruneDeadByPort(item.localPort);
-        if (this.findByPort(item.localPort)) {
-          throw new Error(`Port ${item.localPort} is already used by another forward`);
-        }
+    if (sshItem && this.hostKeys && !joining) {
+      // Ask about unknown/changed keys here; ssh itself would only fail with "Host key verification failed"
+      const options = Object.entries(mergeSshOptions(sshItem.sshOptions)).flatMap(([name, value]) => ['-o', `${name}=${value}`]);
+      await this.hostKeys.verify(sshItem.sshHost, [...options, ...sshConnectionArgs(sshItem)], env.hostKeyPolicy ?? 'strict');
+    }
+
+    const configuredPort = this.findForward(key)?.localPort;
+    if (configuredPort === undefined) { throw new Error(`Unknown forward ${this.keyToId(key)}`); }
+    if (key.kind === 'remote') { this.checkRemotePort(key); }
+    // Remote forwards connect to their localPort instead of listening on it
+    const localPort = key.kind === 'remote' ? 0 : await this.pickLocalPort(key, configuredPort);
+    let spec = this.buildSpec(env, key, undefined, undefined, localPort);
+    let resolvedPod: string | undefined;
+    if (spec.selector) {
+      resolvedPod = await this.resolveSelectorPod(env, key);
+      spec = this.buildSpec(env, key, undefined, resolvedPod, localPort);
+    }
+    let proxy: LocalProxy | undefined;
+    if (spec.proxied) {
+      const upstreamPort = await findFreePort();
+      spec = this.buildSpec(env, key, upstreamPort, resolvedPod, localPort);
+      proxy = new LocalProxy(spec.localPort, upstreamPort, line => this.output.appendLine(line));
+      try {
+        await proxy.listen(key.kind === 'ssh' || key.kind === 'socks' ? (findForwardItem(env, key) as SshTunnel | SocksProxy | undefined)?.bindAddress : undefined);
+      } catch (e: any) {
+        proxy.close();
+        throw new Error(`Port ${spec.localPort} could not be bound for proxying (${String(e?.code ?? e)})`);
+      }
+      this.output.appendLine(`Proxy: 127.0.0.1:${spec.localPort} -> 127.0.0.1:${upstreamPort}`);
+    }
+    this.spawnAndTrack(key, spec, { proxy, resolvedPod, configuredPort });
+  }
+
+  // Stops the forwards of the other environments in env's exclusive group and waits until their ports are released
+  private async switchExclusiveGroup(env: EnvironmentConfig): Promise<void> {
+    const group = env.exclusiveGroup;
+    if (!group) {
+      return;
+    }
+    const current = this.switching.get(group);
+    // Forwards started together share one switch
+    if (current?.envId === env.id) {
+      return await current.task;
+    }
+    const inGroup = (envId: string) => envId !== env.id && this.envs.find(e => e.id === envId)?.exclusiveGroup === group;
+    // Members of other environments still starting are let finish and then stopped with the rest.
+    // Taken now: starts that come later wait for this switch, and waiting for them would never end.
+    const starting = [...this.starting].filter(([id]) => inGroup(id.slice(0, id.indexOf(':')))).map(([, task]) => task);
+    const task = (async () => {
+      // A switch to another environment still under way goes first
+      if (current) {
+        await current.task.catch(() => undefined);
+      }
+      await Promise.allSettled(starting);
+      const others = [...this.processes.values()].filter(p => inGroup(p.key.envId));
+      if (!others.length) {
+        return;
+      }
+      const envIds = [...new Set(others.map(p => p.key.envId))];
+      this.output.appendLine(`Exclusive: switching ${group} to ${env.id}, stopping ${envIds.join(', ')}.`);
+      const ports = others.map(p => p.localPort).filter(port => port > 0);
+      for (const p of others) {
+        await this.stop(p.key);
+      }
+      await this.waitForPortsReleased(ports);
+    })();
+    this.switching.set(group, { envId: env.id, task });
+    try {
+      await task;
+    } finally {
+      if (this.switching.get(group)?.task === task) {
+        this.switching.delete(group);
+      }
+    }
+  }
+
+  // ssh and kubectl close their listeners shortly after being killed; give up after timeoutMs and let the start report the port
+  private async waitForPortsReleased(ports: number[], timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (const port of ports) {
+      while (Date.now() < deadline && !await isPortFree(port)) { await new Promise(r => setTimeout(r, 100)); }
+    }
+  }
+
+  // The local port to start on: the fixed port, the first free one of a range, or any free port for "auto".
+  // A taken fixed port falls back to a free one when portFallback is on, otherwise it fails naming the holder.
+  private async pickLocalPort(key: ForwardKey, configured: LocalPort): Promise<number> {
+    const id = this.keyToId(key);
+    const range = parseLocalPort(configured);
+    if (!range) { throw new Error(`${id}: invalid localPort '${configured}'`); }
+    if (range === 'auto') { return await this.pickFreePort(); }
+    for (let port = range.from; port <= range.to; port++) {
+      // Prune stale entries first so a dead forward doesn't keep its port
+      if (this.findByPort(port)) { await this.pruneDeadByPort(port); }
+      if (!this.findByPort(port) && await isPortFree(port)) { return port; }
+    }
+    const env = this.envs.find(e => e.id === key.envId);
+    if (range.from === range.to && (this.findListener(key)?.portFallback ?? env?.portFallback)) {
+      const port = await this.pickFreePort();
+      this.output.appendLine(`Port: ${id} localPort ${range.from} is taken, using ${port} instead.`);
+      return port;
+    }
+    if (range.from !== range.to) { throw new Error(`${id}: no free port in ${range.from}-${range.to}`); }
+    const ours = this.findByPort(range.from);
+    if (ours) {
+      const hint = ours.key.envId !== key.envId ? ` (give both environments the same exclusiveGroup to switch between them)` : '';
+      throw new Error(`Port ${range.from} is already used by ${this.keyToId(ours.key)}${hint}`);
+    }
+    const holders = (await inspectPorts([range.from]).catch(() => undefined))?.get(range.from) ?? [];
+    throw new Error(`Port ${range.from} is already in use${holders.length ? ` by ${holders.map(describeOwner).join(', ')}` : ''}`);
+  }
+
+  // Two remote forwards can't listen on the same port of one ssh host; ssh would only report it after connecting
+  private checkRemotePort(key: ForwardKey) {
+    const item = this.findForward(key) as RemoteForward | undefined;
+    if (!item) { return; }
+    for (const p of this.processes.values()) {
+      if (p.key.kind !== 'remote') { continue; }
+      const other = this.findForward(p.key) as RemoteForward | undefined;
+      if (other && other.sshHost === item.sshHost && other.port === item.port && other.remotePort === item.remotePort) {
+        throw new Error(`Remote port ${item.remotePort} on ${item.sshHost} is already used by ${this.keyToId(p.key)}`);
+      }
+    }
+  }
+
+  private async pickFreePort(): Promise<number> {
+    // The OS won't hand out a bound port, but a stopped forward's port may still be recorded for a moment
+    for (;;) {
+      const port = await findFreePort();
+      if (!this.findByPort(port)) { return port; }
+    }
+  }
+
+  // The command a forward is spawned with; also used to tell whether a running forward is stale after a config change.
+  // In proxy mode the child binds upstreamPort instead of the public localPort; selector forwards need the resolved pod.
+  // localPort is the picked port; without it only a fixed localPort can be built (others yield NaN and never match).
+  private buildSpec(env: EnvironmentConfig, key: ForwardKey, upstreamPort?: number, resolvedPod?: string, localPort?: number): ForwardSpec {
+    if (key.kind !== 'k8s') {
+      const item = findForwardItem(env, key) as SshTunnel | SocksProxy | RemoteForward | undefined;
+      if (!item) { throw new Error(`Unknown ${kindNames[key.kind]} ${key.id}`); }
+      const port = key.kind === 'remote' ? 0 : localPort ?? fixedPort(item.localPort);
+      const forwardArgs = sshForwardArgs(key.kind, item, upstreamPort ?? port, upstreamPort !== undefined);
+      const master = this.masterSpec(env, item);
+      if (master) {
+        const mux = { master, forwardArgs };
+        const args = controlArgs(this.mux.socketFor(master), item.sshHost, 'forward', forwardArgs);
+        return { command: 'ssh', args, localPort: port, proxied: this.isProxied(key), mux };
       }
+      const options = mergeSshOptions(this.hostKeyOptions(env), item.sshOptions);
       const args = [
         '-v',
-        '-o', 'ExitOnForwardFailure=yes',
-        '-o', 'ServerAliveInterval=60',
-        '-o', 'ServerAliveCountMax=3',
-        // Avoid impacting other tunnels if user has ControlMaster enabled in ssh config
-        '-o', 'ControlMaster=no',
-        '-o', 'ControlPersist=no',
-        '-o', 'StrictHostKeyChecking=no',
-        '-NL', `${item.localPort}:${item.remoteHost}:${item.remotePort}`,
+        ...Object.entries(options).flatMap(([name, value]) => ['-o', `${name}=${value}`]),
+        ...sshConnectionArgs(item),
+        '-N', ...forwardArgs,
         item.sshHost
       ];
-      this.spawnAndTrack(key, 'ssh', args, item.localPort);
-      return;
+      return { command: 'ssh', args, localPort: port, proxied: this.isProxied(key) };
     }
 
     const item = env.k8sForwards.find(f => f.id === key.id);
     if (!item) throw new Error(`Unknown k8s forward ${key.id}`);
-    if (this.findByPort(item.localPort)) {
-      await this.pruneDeadByPort(item.localPort);
-      if (this.findByPort(item.localPort)) {
-        throw new Error(`Port ${item.localPort} is already used by another forward`);
-      }
-    }
+    const port = localPort ?? fixedPort(item.localPort);
+    const selector = item.targetKind === 'selector' ? item.selector : undefined;
+    // Until the selector is resolved the target is only a placeholder; such a spec is never spawned
+    const target = selector ? `pods/${resolvedPod ?? '?'}` : k8sTargetRef(item);
     const args = [
-      ...(env.kubectlContext ? ['--context', env.kubectlContext] : []),
+      ...this.kubectlBaseArgs(env, item),
       '-n', item.namespace,
-      'port-forward', `services/${item.serviceName}`,
-      `${item.localPort}:${item.remotePort}`
+      'port-forward', target,
+      `${upstreamPort ?? port}:${item.remotePort}`
+    ];
+    return { command: 'kubectl', args, localPort: port, proxied: this.isProxied(key), selector };
+  }
+
+  // The shared connection a multiplexed ssh forward is added to; undefined when it runs its own ssh process
+  private masterSpec(env: EnvironmentConfig, item: SshConnection): MasterSpec | undefined {
+    if (!(item.multiplex ?? env.multiplex)) { return undefined; }
+    // The multiplexer sets the Control* options of its own connection
+    const options = Object.entries(mergeSshOptions(this.hostKeyOptions(env), item.sshOptions)).filter(([name]) => !/^control/i.test(name));
+    return {
+      host: item.sshHost,
+      args: [...options.flatMap(([name, value]) => ['-o', `${name}=${value}`]), ...sshConnectionArgs(item)]
+    };
+  }
+
+  private hostKeyOptions(env: EnvironmentConfig): Record<string, string> {
+    const policy: HostKeyPolicy = env.hostKeyPolicy ?? 'strict';
+    if (this.hostKeys) { return this.hostKeys.sshOptions(policy); }
+    return { StrictHostKeyChecking: policy === 'strict' ? 'yes' : policy === 'accept-new' ? 'accept-new' : 'no' };
+  }
+
+  // Context/kubeconfig flags shared by port-forward and pod lookups; per-forward values override the environment
+  private kubectlBaseArgs(env: EnvironmentConfig, item: K8sForward): string[] {
+    const context = item.kubectlContext ?? env.kubectlContext;
+    return [
+      ...(item.kubeconfig ? ['--kubeconfig', expandHome(item.kubeconfig)] : []),
+      ...(context ? ['--context', context] : [])
     ];
-    this.spawnAndTrack(key, 'kubectl', args, item.localPort);
-    console.log('kubectl port-forward', args);
+  }
+
+  // Pick a ready pod matching the forward's label selector
+  private async resolveSelectorPod(env: EnvironmentConfig, key: ForwardKey): Promise<string> {
+    const item = env.k8sForwards.find(f => f.id === key.id);
+    if (!item?.selector) { throw new Error(`Unknown k8s forward ${key.id}`); }
+    const out = await this.runCapture('kubectl', [...this.kubectlBaseArgs(env, item), '-n', item.namespace, 'get', 'pods', '-l', item.selector, '-o', 'json']);
+    let pods: any[] = [];
+    try { pods = JSON.parse(out).items ?? []; } catch {}
+    const ready = pods.find(p =>
+      !p.metadata?.deletionTimestamp &&
+      p.status?.phase === 'Running' &&
+      (p.status?.conditions ?? []).some((c: any) => c.type === 'Ready' && c.status === 'True'));
+    if (!ready) { throw new Error(`No ready pod matches '${item.selector}' in namespace ${item.namespace}`); }
+    this.output.appendLine(`Selector: ${this.keyToId(key)} '${item.selector}' -> pod ${ready.metadata.name}`);
+    return ready.metadata.name;
+  }
+
+  private async runCapture(command: string, args: string[]): Promise<string> {
+    return await new Promise((resolve, reject) => {
+      const proc = spawn(command, args);
+      const bufs: Buffer[] = [];
+      const errs: Buffer[] = [];
+      proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
+      proc.stderr?.on('data', d => errs.push(Buffer.from(d)));
+      proc.on('error', reject);
+      proc.on('close', code => {
+        if (code === 0) { resolve(Buffer.concat(bufs).toString('utf8')); }
+        else { reject(new Error(`${command} ${args.join(' ')} failed: ${Buffer.concat(errs).toString('utf8').trim() || `code=${code}`}`)); }
+      });
+    });
   }
 
   public async stop(key: ForwardKey): Promise<void> {
     const id = this.keyToId(key);
     const running = this.processes.get(id);
+    const hadFailure = this.failures.delete(id);
     if (running) {
-      running.process.kill();
+      this.killProc(running);
       this.processes.delete(id);
-      this.onDidChangeEmitter.fire();
     }
+    if (running || hadFailure) { this.onDidChangeEmitter.fire(); }
+  }
+
+  public async restart(key: ForwardKey): Promise<void> {
+    await this.stop(key);
+    await this.start(key);
+  }
+
+  // Start forwards and, first, everything they depend on; a forward only starts once its dependencies are ready
+  public async startWithDependencies(keys: ForwardKey[]): Promise<StartReport> {
+    const tasks = new Map<string, { key: ForwardKey; task: Promise<void> }>();
+    const run = (key: ForwardKey, chain: string[]): Promise<void> => {
+      const id = this.keyToId(key);
+      const existing = tasks.get(id);
+      if (existing) { return existing.task; }
+      if (chain.includes(id)) { return Promise.reject(new Error(`dependency cycle ${[...chain, id].join(' -> ')}`)); }
+      const task = (async () => {
+        const deps = this.dependenciesOf(key);
+        const results = await Promise.allSettled(deps.map(d => run(d, [...chain, id])));
+        for (let i = 0; i < results.length; i++) {
+          const r = results[i];
+          if (r.status === 'fulfilled') { continue; }
+          // A cycle leads back here; this forward is the one that fails, the rest of the cycle is blocked by it
+          if (r.reason instanceof BlockedError && this.keyToId(r.reason.by) === id) { throw new Error(r.reason.message); }
+          // Report the dependency that actually failed, not the one in between
+          throw r.reason instanceof BlockedError ? r.reason : new BlockedError(deps[i], String(r.reason?.message ?? r.reason));
+        }
+        await this.start(key);
+        await this.waitUntilReady(key);
+      })();
+      tasks.set(id, { key, task });
+      return task;
+    };
+    // run() walks the whole graph synchronously, so every task is registered after this loop
+    for (const key of keys) { run(key, []).catch(() => {}); }
+
+    const report: StartReport = { started: [], failed: [], blocked: [] };
+    await Promise.allSettled([...tasks.values()].map(t => t.task));
+    for (const { key, task } of tasks.values()) {
+      try {
+        await task;
+        report.started.push(key);
+      } catch (e: any) {
+        const error = String(e?.message ?? e);
+        if (e instanceof BlockedError) { report.blocked.push({ key, by: e.by, error }); }
+        else { report.failed.push({ key, error }); }
+      }
+    }
+    return report;
+  }
+
+  // Resolves once the forward's port accepts connections (or its probe passes); rejects if it stops or the readiness timeout passes
+  public async waitUntilReady(key: ForwardKey, timeoutMs = this.readinessTimeoutFor(key)): Promise<void> {
+    const id = this.keyToId(key);
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const p = this.processes.get(id);
+      if (!p) {
+        const failure = this.failures.get(id);
+        throw new Error(`${id} stopped before it was ready${failure ? ` (${failure})` : ''}`);
+      }
+      const ready = p.key.kind === 'remote' ? p.remoteListening : (await this.probe(p, 500)).ok;
+      if (!p.restartTimer && ready) { return; }
+      if (Date.now() >= deadline) { throw new Error(`${id} not ready within ${timeoutMs}ms`); }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  private dependenciesOf(key: ForwardKey): ForwardKey[] {
+    const env = this.envs.find(e => e.id === key.envId);
+    const item = this.findForward(key);
+    if (!env || !item) { throw new Error(`Unknown forward ${this.keyToId(key)}`); }
+    return (item.dependsOn ?? []).map(ref => {
+      const dep = resolveForwardRef(env, ref);
+      if (!dep) { throw new Error(`${this.keyToId(key)} depends on unknown forward '${ref}'`); }
+      return dep;
+    });
+  }
+
+  private readinessTimeoutFor(key: ForwardKey): number {
+    return this.findForward(key)?.readiness?.timeoutMs ?? defaultReadinessTimeoutMs;
   }
 
   public async stopAllForEnv(envId: string): Promise<void> {
     for (const [id, p] of [...this.processes.entries()]) {
       if (p.key.envId === envId) {
-        p.process.kill();
+        this.killProc(p);
         this.processes.delete(id);
       }
     }
+    for (const id of [...this.failures.keys()]) {
+      if (id.startsWith(`${envId}:`)) { this.failures.delete(id); }
+    }
     this.onDidChangeEmitter.fire();
   }
 
   public async stopAll(): Promise<void> {
-    if (this.processes.size === 0) return;
+    const hadFailures = this.failures.size > 0;
+    this.failures.clear();
+    if (this.processes.size === 0) {
+      if (hadFailures) { this.onDidChangeEmitter.fire(); }
+      return;
+    }
     for (const [id, p] of [...this.processes.entries()]) {
-      try { p.process.kill(); } catch {}
+      this.killProc(p);
       this.processes.delete(id);
     }
     this.onDidChangeEmitter.fire();
   }
 
-  private spawnAndTrack(key: ForwardKey, command: string, args: string[], localPort: number) {
-    const child = spawn(command, args, { stdio: 'pipe' });
+  private killProc(p: RunningProc) {
+    p.exited = true;
+    if (p.restartTimer) {
+      clearTimeout(p.restartTimer);
+      p.restartTimer = undefined;
+    }
+    this.detachMux(p);
+    try { p.process?.kill(); } catch {}
+    p.proxy?.close();
+    this.health.delete(this.keyToId(p.key));
+  }
+
+  // Cancel a multiplexed forward on its shared connection, which closes once no forward uses it
+  private detachMux(p: RunningProc) {
+    if (!p.mux) { return; }
+    const { master, forwardArgs, detach } = p.mux;
+    p.mux = undefined;
+    detach();
+    master.release(forwardArgs);
+  }
+
+  private spawnAndTrack(key: ForwardKey, spec: ForwardSpec, state: { attempt?: number; proxy?: LocalProxy; resolvedPod?: string; configuredPort: LocalPort; lastError?: string }) {
+    const { command, args, localPort } = spec;
+    const attempt = state.attempt ?? 0;
     const id = this.keyToId(key);
-    this.processes.set(id, { key, process: child, command, args, localPort, startedAt: Date.now() });
-    this.output.appendLine(`Started: ${command} ${args.join(' ')}`);
+    const entry: RunningProc = {
+      key, command, args, localPort, configuredPort: state.configuredPort, startedAt: Date.now(), attempt,
+      proxy: state.proxy, selector: spec.selector, resolvedPod: state.resolvedPod, muxSpec: spec.mux,
+      logMark: this.logs.mark(id), lastError: state.lastError
+    };
+    this.processes.set(id, entry);
+    this.logForward(key, `${attempt ? `Restarted (attempt ${attempt})` : 'Started'}: ${command} ${args.join(' ')}\n`);
+    if (!entry.proxy && key.kind !== 'remote') {
+      entry.traffic = new OutputTraffic(key.kind);
+    }
     this.onDidChangeEmitter.fire();
+    if (spec.mux) {
+      void this.attachMux(entry, spec.mux);
+      return;
+    }
+    const child = spawn(command, args, { stdio: 'pipe', env: command === 'ssh' ? this.askpass?.env(id) : undefined });
+    entry.process = child;
     child.stdout?.on('data', d => {
-      this.output.append(d.toString());
+      const text = d.toString();
+      this.logForward(key, text);
+      entry.traffic?.append(text);
     });
     child.stderr?.on('data', d => {
-      this.output.append(d.toString());
+      const text = d.toString();
+      this.logForward(key, text);
+      entry.traffic?.append(text);
+      // ssh -v: "remote forward success for: listen 8080, connect localhost:3000"
+      if (key.kind === 'remote' && !entry.remoteListening && /remote forward success/.test(text)) {
+        entry.remoteListening = true;
+      }
     });
     child.on('exit', (code, signal) => {
-      this.output.appendLine(`Stopped: ${command} ${args.join(' ')} (code=${code} signal=${signal})`);
-      this.processes.delete(id);
-      this.onDidChangeEmitter.fire();
+      this.logForward(key, `Stopped: ${command} ${args.join(' ')} (code=${code} signal=${signal})\n`);
+      this.handleExit(entry, code !== 0, `code=${code} signal=${signal}`);
     });
     child.on('error', (err) => {
-      this.output.appendLine(`Failed to start: ${command} ${args.join(' ')} (error=${String(err)})`);
-      this.processes.delete(id);
-      this.onDidChangeEmitter.fire();
+      this.logForward(key, `Failed to start: ${command} ${args.join(' ')} (error=${String(err)})\n`);
+      this.handleExit(entry, true, String(err));
     });
 
     // Removed non-authoritative 5s port check to avoid false negatives
   }
 
+  // Add a forward to its shared connection, connecting first if needed; losing the connection counts as an exit
+  private async attachMux(entry: RunningProc, spec: MuxSpec): Promise<void> {
+    const id = this.keyToId(entry.key);
+    const fail = (e: any) => {
+      this.logForward(entry.key, `Failed to start: ${entry.command} ${entry.args.join(' ')} (error=${String(e?.message ?? e)})\n`);
+      this.handleExit(entry, true, String(e?.message ?? e));
+    };
+    let master: SshMaster;
+    try {
+      master = await this.mux.acquire(spec.master);
+    } catch (e) {
+      fail(e);
+      return;
+    }
+    // Stopped while connecting
+    if (this.processes.get(id) !== entry || entry.exited) {
+      master.release();
+      return;
+    }
+    try {
+      await master.forward(spec.forwardArgs);
+    } catch (e) {
+      master.release();
+      fail(e);
+      return;
+    }
+    if (this.processes.get(id) !== entry || entry.exited) {
+      master.release(spec.forwardArgs);
+      return;
+    }
+    const detach = master.onExit(reason => {
+      // The connection is gone, there is nothing left to cancel
+      entry.mux = undefined;
+      this.logForward(entry.key, `Stopped: ${id} (${reason})\n`);
+      this.handleExit(entry, true, reason);
+    });
+    entry.mux = { master, forwardArgs: spec.forwardArgs, detach };
+    // ssh -O forward -R only returns once the server opened the remote port
+    if (entry.key.kind === 'remote') { entry.remoteListening = true; }
+    this.onDidChangeEmitter.fire();
+  }
+
+  // Decide between dropping the forward and respawning it with the same command/args, per its restart policy
+  private handleExit(entry: RunningProc, failed: boolean, rawReason: string) {
+    if (entry.exited) { return; }
+    entry.exited = true;
+    const id = this.keyToId(entry.key);
+    // Stopped by the user or replaced by a newer process
+    if (this.processes.get(id) !== entry) { return; }
+    const reason = failed ? this.explainFailure(entry, rawReason) : rawReason;
+    if (reason !== rawReason) { this.logForward(entry.key, `Reason: ${reason}\n`); }
+    // A remembered passphrase may be what the server denied; it is asked for again on the next attempt
+    if (failed && this.askpass?.rejected && this.logs.since(id, entry.logMark).some(line => line.includes('Permission denied ('))) {
+      void this.askpass.rejected(entry.muxSpec ? masterLabel(entry.muxSpec.master) : id);
+    }
+
+    const policy = this.restartPolicyFor(entry.key);
+    const wanted = policy.mode === 'always' || (policy.mode === 'on-failure' && failed);
+    if (!wanted) {
+      this.processes.delete(id);
+      entry.proxy?.close();
+      if (failed) { this.failures.set(id, reason); }
+      this.onDidChangeEmitter.fire();
+      return;
+    }
+    if (entry.attempt >= policy.maxRetries) {
+      this.processes.delete(id);
+      entry.proxy?.close();
+      this.failures.set(id, `gave up after ${entry.attempt} attempt(s): ${reason}`);
+      this.output.appendLine(`Restart: ${id} giving up after ${entry.attempt} attempt(s) (${reason}).`);
+      this.onDidGiveUpEmitter.fire({ key: entry.key, attempts: entry.attempt, reason });
+      this.onDidChangeEmitter.fire();
+      return;
+    }
+
+    const attempt = entry.attempt + 1;
+    const delay = backoffDelay(attempt, policy);
+    this.output.appendLine(`Restart: ${id} reconnecting in ${delay}ms (attempt ${attempt}/${policy.maxRetries}).`);
+    // Keep the entry so the toggle stays on and the port stays reserved while waiting
+    entry.attempt = attempt;
+    if (failed) { entry.lastError = reason; }
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      if (this.processes.get(id) !== entry) { return; }
+      void this.respawn(entry, attempt);
+    }, delay);
+    this.onDidChangeEmitter.fire();
+  }
+
+  private async respawn(entry: RunningProc, attempt: number): Promise<void> {
+    const id = this.keyToId(entry.key);
+    let spec: ForwardSpec = { command: entry.command, args: entry.args, localPort: entry.localPort, proxied: !!entry.proxy, selector: entry.selector, mux: entry.muxSpec };
+    let resolvedPod = entry.resolvedPod;
+    if (entry.selector) {
+      // The old pod is likely gone (often the reason we died), so pick a ready one again
+      try {
+        const env = this.envs.find(e => e.id === entry.key.envId);
+        if (!env) { throw new Error(`Unknown env ${entry.key.envId}`); }
+        resolvedPod = await this.resolveSelectorPod(env, entry.key);
+        spec = this.buildSpec(env, entry.key, entry.proxy?.upstreamPort, resolvedPod, entry.localPort);
+      } catch (e: any) {
+        if (this.processes.get(id) !== entry) { return; }
+        this.output.appendLine(`Restart: ${id} ${String(e?.message ?? e)}`);
+        // Counts as a failed attempt
+        entry.exited = false;
+        this.handleExit(entry, true, String(e?.message ?? e));
+        return;
+      }
+    }
+    // Stopped while resolving
+    if (this.processes.get(id) !== entry) { return; }
+    this.spawnAndTrack(entry.key, spec, { attempt, proxy: entry.proxy, resolvedPod, configuredPort: entry.configuredPort, lastError: entry.lastError });
+  }
+
+  private findForward(key: ForwardKey): ForwardItem | undefined {
+    return findForwardItem(this.envs.find(e => e.id === key.envId), key);
+  }
+
+  // Forwards that listen on a local port, i.e. all kinds but remote forwards
+  private findListener(key: ForwardKey): SshTunnel | K8sForward | SocksProxy | undefined {
+    return key.kind === 'remote' ? undefined : this.findForward(key) as SshTunnel | K8sForward | SocksProxy | undefined;
+  }
+
+  private restartPolicyFor(key: ForwardKey): Required<RestartPolicy> {
+    const env = this.envs.find(e => e.id === key.envId);
+    const item = this.findForward(key);
+    return { ...defaultRestartPolicy, ...(env?.restart ?? {}), ...(item?.restart ?? {}) };
+  }
+
+  private isProxied(key: ForwardKey): boolean {
+    if (key.kind === 'remote') { return false; }
+    const env = this.envs.find(e => e.id === key.envId);
+    return this.findListener(key)?.proxy ?? env?.proxy ?? false;
+  }
+
+  // The port the child itself listens on; what health checks must probe
+  private upstreamPortOf(p: RunningProc): number {
+    return p.proxy?.upstreamPort ?? p.localPort;
+  }
+
   private keyToId(key: ForwardKey): string {
     return `${key.envId}:${key.kind}:${key.id}`;
   }
 
   public validateConfigDuplicates(): string[] {
-    const errors: string[] = [];
-    for (const env of this.envs) {
-      const seen = new Map<number, string[]>();
-      const add = (port: number, label: string) => {
-        const list = seen.get(port) ?? [];
-        list.push(label);
-        seen.set(port, list);
-      };
-      for (const t of env.sshTunnels) add(t.localPort, `ssh:${t.id}`);
-      for (const f of env.k8sForwards) add(f.localPort, `k8s:${f.id}`);
-      for (const [port, labels] of seen.entries()) {
-        if (labels.length > 1) {
-          errors.push(`Env ${env.name}: localPort ${port} used by ${labels.join(', ')}`);
-        }
-      }
-    }
-    return errors;
+    return findDuplicatePorts(this.envs).map(d => {
+      const env = this.envs[d.envIndex];
+      return `Env ${env.name}: localPort ${d.port} used by ${d.entries.map(e => `${e.kind}:${e.id}`).join(', ')}`;
+    });
   }
 
   public findByPort(port: number): RunningProc | undefined {
@@ -189,135 +1092,114 @@ export class ForwardManager {
 
   public getOccupiedPorts(): number[] {
     const ports: number[] = [];
-    for (const p of this.processes.values()) ports.push(p.localPort);
+    for (const p of this.processes.values()) { if (p.localPort) { ports.push(p.localPort); } }
     return ports;
   }
 
   public getPortUsage(): { port: number; key: string }[] {
     const list: { port: number; key: string }[] = [];
     for (const p of this.processes.values()) {
-      list.push({ port: p.localPort, key: this.keyToId(p.key) });
+      if (p.localPort) { list.push({ port: p.localPort, key: this.keyToId(p.key) }); }
     }
     return list;
   }
 
+  // Fixed localPorts of all forwards; auto/range ports are only known while running (see getPortUsage)
   public getAllConfiguredPorts(): number[] {
     const ports: number[] = [];
     for (const env of this.envs) {
-      for (const t of env.sshTunnels) ports.push(t.localPort);
-      for (const f of env.k8sForwards) ports.push(f.localPort);
+      for (const key of forwardKeysOf(env)) {
+        const configured = this.findListener(key)?.localPort;
+        if (typeof configured === 'number') { ports.push(configured); }
+      }
     }
     return Array.from(new Set(ports));
   }
 
+  // The port a forward listens on: the actual one while running, else its fixed localPort; none for remote forwards
+  public getLocalPort(key: ForwardKey): number | undefined {
+    if (key.kind === 'remote') { return undefined; }
+    const running = this.processes.get(this.keyToId(key));
+    if (running) { return running.localPort; }
+    const configured = this.findListener(key)?.localPort;
+    return typeof configured === 'number' ? configured : undefined;
+  }
+
+  // Port for a `${forward:env/id.port}` reference; undefined for unknown forwards and stopped auto/range ones
+  public resolvePortReference(ref: string): number | undefined {
+    let keys: ForwardKey[];
+    try { keys = resolveForwardTargets(this.envs, [ref]); } catch { return undefined; }
+    return keys.length === 1 ? this.getLocalPort(keys[0]) : undefined;
+  }
+
   public async killSshByPorts(ports: number[]): Promise<number[]> {
-    const killed: number[] = [];
-    const uniquePorts = Array.from(new Set(ports));
-    for (const port of uniquePorts) {
-      try {
-        // macOS/Linux: get PIDs (-t: terse pids) listening on port, restricted to ssh command
-        const proc = spawn('lsof', ['-tiTCP:' + String(port), '-sTCP:LISTEN', '-n', '-P', '-c', 'ssh']);
-        const bufs: Buffer[] = [];
-        const errs: Buffer[] = [];
-        await new Promise<void>((resolve) => {
-          proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
-          proc.stderr?.on('data', d => errs.push(Buffer.from(d)));
-          proc.on('close', () => resolve());
-        });
-        const out = Buffer.concat(bufs).toString('utf8').trim();
-        if (!out) continue;
-        const pids = out.split(/\s+/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
-        for (const pid of pids) {
-          try {
-            process.kill(pid, 'SIGTERM');
-            killed.push(pid);
-            this.output.appendLine(`Killed ssh pid=${pid} on port ${port}`);
-          } catch (e) {
-            this.output.appendLine(`Failed killing ssh pid=${pid} on port ${port}: ${String(e)}`);
-          }
-        }
-      } catch (e) {
-        this.output.appendLine(`lsof not available or failed for port ${port}: ${String(e)}`);
-      }
-    }
-    return killed;
+    return await this.killByPorts(ports, 'ssh');
   }
 
   public async killKubectlByPorts(ports: number[]): Promise<number[]> {
-    const killed: number[] = [];
-    const uniquePorts = Array.from(new Set(ports));
-    for (const port of uniquePorts) {
-      try {
-        // Find kubectl processes listening on the specific TCP port
-        const proc = spawn('lsof', ['-tiTCP:' + String(port), '-sTCP:LISTEN', '-n', '-P', '-c', 'kubectl']);
-        const bufs: Buffer[] = [];
-        const errs: Buffer[] = [];
-        await new Promise<void>((resolve) => {
-          proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
-          proc.stderr?.on('data', d => errs.push(Buffer.from(d)));
-          proc.on('close', () => resolve());
-        });
-        const out = Buffer.concat(bufs).toString('utf8').trim();
-        if (!out) continue;
-        const pids = out.split(/\s+/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
-        for (const pid of pids) {
-          try {
-            process.kill(pid, 'SIGTERM');
-            killed.push(pid);
-            this.output.appendLine(`Killed kubectl pid=${pid} on port ${port}`);
-          } catch (e) {
-            this.output.appendLine(`Failed killing kubectl pid=${pid} on port ${port}: ${String(e)}`);
-          }
-        }
-      } catch (e) {
-        this.output.appendLine(`lsof not available or failed for port ${port}: ${String(e)}`);
-      }
-    }
-    return killed;
+    return await this.killByPorts(ports, 'kubectl');
   }
 
   public async killAnyByPorts(ports: number[]): Promise<number[]> {
+    // Kill any process LISTENing on the port (no command filter)
+    return await this.killByPorts(ports);
+  }
+
+  private async killByPorts(ports: number[], name?: string): Promise<number[]> {
     const killed: number[] = [];
-    const uniquePorts = Array.from(new Set(ports));
-    for (const port of uniquePorts) {
-      try {
-        // Kill any process LISTENing on the port (no command filter)
-        const proc = spawn('lsof', ['-tiTCP:' + String(port), '-sTCP:LISTEN', '-n', '-P']);
-        const bufs: Buffer[] = [];
-        const errs: Buffer[] = [];
-        await new Promise<void>((resolve) => {
-          proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
-          proc.stderr?.on('data', d => errs.push(Buffer.from(d)));
-          proc.on('close', () => resolve());
-        });
-        const out = Buffer.concat(bufs).toString('utf8').trim();
-        if (!out) continue;
-        const pids = out.split(/\s+/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
-        for (const pid of pids) {
-          try {
-            process.kill(pid, 'SIGTERM');
-            killed.push(pid);
-            this.output.appendLine(`Killed pid=${pid} listening on port ${port}`);
-          } catch (e) {
-            this.output.appendLine(`Failed killing pid=${pid} on port ${port}: ${String(e)}`);
-          }
+    let owners: Map<number, PortOwner[]>;
+    try {
+      owners = await inspectPorts(Array.from(new Set(ports)));
+    } catch (e) {
+      this.output.appendLine(`Port inspection failed for ports ${ports.join(', ')}: ${String(e)}`);
+      return killed;
+    }
+    const label = name ? `${name} ` : '';
+    for (const [port, list] of owners) {
+      for (const owner of list) {
+        // Unknown owners can't be killed; proxied forwards listen from the extension host itself, never kill our own process
+        if (owner.pid === undefined || owner.pid === process.pid) { continue; }
+        if (name && (owner.name ?? '').replace(/\.exe$/i, '') !== name) { continue; }
+        try {
+          process.kill(owner.pid, 'SIGTERM');
+          killed.push(owner.pid);
+          this.output.appendLine(`Killed ${label}pid=${owner.pid} listening on port ${port}`);
+        } catch (e) {
+          this.output.appendLine(`Failed killing ${label}pid=${owner.pid} on port ${port}: ${String(e)}`);
         }
-      } catch (e) {
-        this.output.appendLine(`lsof not available or failed for port ${port}: ${String(e)}`);
       }
     }
     return killed;
   }
 
   public async healthCheck(): Promise<void> {
+    // Probes can take seconds; don't let interval ticks pile up behind a slow one
+    if (this.healthChecking) { return; }
+    this.healthChecking = true;
+    try {
+      await this.checkAll();
+    } finally {
+      this.healthChecking = false;
+    }
+  }
+
+  private async checkAll(): Promise<void> {
     let changed = false;
     const now = Date.now();
-    for (const [id, p] of this.processes.entries()) {
+    for (const [id, p] of [...this.processes.entries()]) {
+      // Stopped or replaced while an earlier probe was running
+      if (this.processes.get(id) !== p) { continue; }
+      // Waiting out a restart backoff; nothing to probe yet
+      if (p.restartTimer) { continue; }
+      // Still connecting to a shared connection; losing it is reported by the connection itself
+      if (p.muxSpec && !p.mux) { continue; }
       // Remove if the child has already exited
-      if (p.process.exitCode !== null) {
+      if (p.process && p.process.exitCode !== null) {
         this.output.appendLine(`Health: ${id} process exited (code=${p.process.exitCode}).`);
         this.processes.delete(id);
+        if (p.process.exitCode !== 0) { this.failures.set(id, this.explainFailure(p, `code=${p.process.exitCode}`)); }
         this.portFailureCounts.delete(id);
+        this.health.delete(id);
         changed = true;
         continue;
       }
@@ -327,30 +1209,62 @@ export class ForwardManager {
         // within grace, skip port checks to avoid flapping during startup
         continue;
       }
-      const ok = await this.isPortOpenNow(p.localPort, 1200);
-      if (ok) {
+      const result = await this.probe(p, 1200);
+      if (this.processes.get(id) !== p || p.exited) { continue; }
+      const previous = this.health.get(id);
+      if (previous?.ok !== result.ok || previous.detail !== result.detail) { changed = true; }
+      this.health.set(id, { key: id, ok: result.ok, detail: result.detail, checkedAt: Date.now() });
+      if (result.ok) {
         if (this.portFailureCounts.has(id)) this.portFailureCounts.delete(id);
+        // A restarted forward that answers again is healthy; reset its retry budget
+        if (p.attempt > 0) {
+          p.attempt = 0;
+          p.lastError = undefined;
+          changed = true;
+        }
         continue;
       }
+      // Reconnecting ssh doesn't bring a stopped local service back; only report it
+      if (p.key.kind === 'remote') { continue; }
       const failures = (this.portFailureCounts.get(id) || 0) + 1;
-      this.output.appendLine(`Health: ${id} port ${p.localPort} closed (${failures}/3).`);
+      this.output.appendLine(`Health: ${id} ${result.detail} (${failures}/3).`);
       this.portFailureCounts.set(id, failures);
       if (failures >= 3) {
-        try { p.process.kill(); } catch {}
-        this.processes.delete(id);
         this.portFailureCounts.delete(id);
-        this.output.appendLine(`Health: ${id} removed after ${failures} failures.`);
-        changed = true;
+        this.output.appendLine(`Health: ${id} unhealthy after ${failures} failures.`);
+        this.detachMux(p);
+        try { p.process?.kill(); } catch {}
+        // Restart policy decides whether the forward is dropped or respawned
+        this.handleExit(p, true, `health check failed: ${result.detail}`);
       }
     }
     if (changed) this.onDidChangeEmitter.fire();
   }
 
-  private async isPortOpenNow(port: number, timeoutMs: number): Promise<boolean> {
+  // Run the forward's configured probe, or a plain connect, against the port its child listens on
+  private async probe(p: RunningProc, connectTimeoutMs: number): Promise<ProbeResult> {
+    if (p.key.kind === 'remote') { return await this.probeRemote(p, connectTimeoutMs); }
+    const probe: Probe | undefined = this.findListener(p.key)?.probe;
+    const port = this.upstreamPortOf(p);
+    if (probe) { return await runProbe(probe, port); }
+    const open = await this.isPortOpenNow(port, connectTimeoutMs);
+    return { ok: open, detail: open ? `port ${p.localPort} open` : `port ${p.localPort} closed` };
+  }
+
+  // A remote forward is up once ssh reports the remote listener; the local service it points at may still be down
+  private async probeRemote(p: RunningProc, connectTimeoutMs: number): Promise<ProbeResult> {
+    const item = this.findForward(p.key) as RemoteForward | undefined;
+    if (!p.remoteListening || !item) { return { ok: false, detail: 'remote listener not up yet' }; }
+    const target = `${item.localHost ?? 'localhost'}:${item.localPort}`;
+    const open = await this.isPortOpenNow(item.localPort, connectTimeoutMs, item.localHost ?? 'localhost');
+    return { ok: open, detail: open ? `remote ${item.remotePort} → ${target}` : `nothing listening on ${target}` };
+  }
+
+  private async isPortOpenNow(port: number, timeoutMs: number, host = '127.0.0.1'): Promise<boolean> {
     return await new Promise(resolve => {
       let settled = false;
       const timer = setTimeout(() => { if (!settled) { settled = true; resolve(false); } }, timeoutMs);
-      const socket = net.createConnection({ host: '127.0.0.1', port }, () => {
+      const socket = net.createConnection({ host, port }, () => {
         clearTimeout(timer);
         settled = true;
         socket.destroy();
@@ -365,54 +1279,81 @@ export class ForwardManager {
     });
   }
 
+  // Forwards of an environment starting together share one ssh-add pass
+  private addSshKeysOnce(env: EnvironmentConfig): Promise<void> {
+    let pending = this.sshAdding.get(env.id);
+    if (!pending) {
+      pending = this.addSshKeysIfPresent(env).finally(() => this.sshAdding.delete(env.id));
+      this.sshAdding.set(env.id, pending);
+    }
+    return pending;
+  }
+
+  // Keys already in the agent are skipped, so a passphrase is only asked for once per agent session
   private async addSshKeysIfPresent(env: EnvironmentConfig): Promise<void> {
     const keys = env.sshAddKeys || [];
     if (!keys.length) {
       return;
     }
-    const expand = (p: string): string => {
-      if (!p) {
-        return p;
-      }
-      if (p.startsWith('~')) {
-        return path.join(os.homedir(), p.slice(1));
-      }
-      return p;
-    };
-    const candidates = Array.from(new Set(keys.map(expand)));
+    const candidates = Array.from(new Set(keys.map(expandHome))).filter(file => fs.existsSync(file));
+    if (!candidates.length) { return; }
+    const failures: SshAddFailureEvent['failures'] = [];
+    const listed = await runSshTool('ssh-add', ['-l', '-E', 'sha256']);
+    // ssh-add -l exits 1 when the agent has no keys and 2 when there is no agent
+    if (listed.error || listed.code === 2) {
+      const reason = describeSshAddError(listed);
+      this.output.appendLine(`ssh-add: ${reason}`);
+      this.onDidFailSshAddEmitter.fire({ envId: env.id, failures: candidates.map(file => ({ file, reason })) });
+      return;
+    }
+    const loaded = new Set(listed.stdout.split(/\r?\n/).map(line => line.split(/\s+/)[1]).filter(Boolean));
     for (const file of candidates) {
-      try {
-        if (!fs.existsSync(file)) {
-          continue;
-        }
-        await new Promise<void>((resolve) => {
-          const proc = spawn('ssh-add', ['-q', file], { stdio: 'ignore' });
-          proc.on('close', () => resolve());
-          proc.on('error', () => resolve());
-        });
-        this.output.appendLine(`ssh-add attempted for ${file}`);
-      } catch {
-        // ignore
+      const fingerprint = await keyFingerprint(file);
+      if (fingerprint && loaded.has(fingerprint)) {
+        this.output.appendLine(`ssh-add: ${file} is already in the agent`);
+        continue;
+      }
+      const result = await runSshTool('ssh-add', [file], this.askpass?.env(`ssh-add ${file}`));
+      if (result.code === 0) {
+        this.output.appendLine(`ssh-add: added ${file}`);
+      } else {
+        const reason = describeSshAddError(result);
+        this.output.appendLine(`ssh-add: ${file} failed: ${reason}${result.stderr ? `\n${result.stderr}` : ''}`);
+        failures.push({ file, reason });
       }
     }
+    if (failures.length) { this.onDidFailSshAddEmitter.fire({ envId: env.id, failures }); }
   }
 
+  // Drop entries on the port whose process is gone. Not answering isn't enough: a forward waiting out its restart
+  // backoff keeps its port reserved, and one that just started may still be connecting.
   private async pruneDeadByPort(port: number): Promise<void> {
     const holder = this.findByPort(port);
     if (!holder) {
       return;
     }
-    const ok = await this.isPortOpenNow(port, 300);
-    if (!ok) {
-      try { holder.process.kill(); } catch {}
-      for (const [id, p] of this.processes.entries()) {
-        if (p.localPort === port) {
-          this.processes.delete(id);
-        }
+    const ok = await this.isPortOpenNow(this.upstreamPortOf(holder), 300);
+    if (ok) {
+      return;
+    }
+    let pruned = false;
+    for (const [id, p] of this.processes.entries()) {
+      if (p.localPort !== port || p.restartTimer || Date.now() - p.startedAt < this.healthGraceMs || !this.hasExited(p)) {
+        continue;
       }
+      this.killProc(p);
+      this.processes.delete(id);
+      pruned = true;
+    }
+    if (pruned) {
       this.onDidChangeEmitter.fire();
     }
   }
+
+  // Multiplexed forwards have no process; theirs ends with the shared connection, which marks them exited
+  private hasExited(p: RunningProc): boolean {
+    return !!p.exited || (!!p.process && (p.process.exitCode !== null || p.process.signalCode !== null));
+  }
 }
 
 
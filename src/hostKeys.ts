@@ -0,0 +1,162 @@
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HostKeyPolicy } from './config';
+
+export type HostKeyPrompt = {
+  host: string;
+  // unknown: no key recorded yet; changed: recorded keys don't match what the server presents
+  reason: 'unknown' | 'changed';
+  fingerprints: string[];
+};
+
+type ScannedKey = { type: string; key: string };
+
+// Checks the first ssh hop's host key before a tunnel starts (the first jump host, if any),
+// asking the user about unknown or changed keys.
+// Trusted keys go to a known_hosts file owned by the extension, which ssh consults before the user's own files.
+export class HostKeyVerifier {
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(
+    public readonly knownHostsFile: string,
+    private confirm: (prompt: HostKeyPrompt) => Promise<boolean>,
+    private log: (line: string) => void
+  ) {}
+
+  // -o options for a tunnel; new keys accepted by ssh itself (accept-new) are written to the managed file
+  public sshOptions(policy: HostKeyPolicy): Record<string, string> {
+    const files = [this.knownHostsFile, '~/.ssh/known_hosts', '~/.ssh/known_hosts2'].map(f => (/\s/.test(f) ? `"${f}"` : f));
+    return {
+      StrictHostKeyChecking: policy === 'strict' ? 'yes' : policy === 'accept-new' ? 'accept-new' : 'no',
+      UserKnownHostsFile: policy === 'off' ? (os.platform() === 'win32' ? 'NUL' : '/dev/null') : files.join(' ')
+    };
+  }
+
+  // Resolves when the host's key is trusted (or can't be checked from here); rejects when the user declines
+  public async verify(sshHost: string, sshArgs: string[], policy: HostKeyPolicy): Promise<void> {
+    if (policy === 'off') { return; }
+    await this.verifyOnce(sshHost, sshArgs, policy, []);
+  }
+
+  // jumpedFrom: hosts whose jump host this is, so a ProxyJump cycle in ssh config ends
+  private async verifyOnce(sshHost: string, sshArgs: string[], policy: HostKeyPolicy, jumpedFrom: string[]): Promise<void> {
+    const id = `${policy}:${sshArgs.join(' ')}:${sshHost}`;
+    // Several forwards through the same host start together; ask once
+    const running = this.pending.get(id);
+    if (running) { return await running; }
+    const task = this.check(sshHost, sshArgs, policy, jumpedFrom).finally(() => this.pending.delete(id));
+    this.pending.set(id, task);
+    await task;
+  }
+
+  private async check(sshHost: string, sshArgs: string[], policy: HostKeyPolicy, jumpedFrom: string[]): Promise<void> {
+    const config = await this.effectiveConfig(sshHost, sshArgs);
+    // Behind jump hosts the first one is the hop to check; ssh checks the hosts after it itself
+    if (config.proxyjump && config.proxyjump !== 'none') {
+      const hop = firstJumpHop(config.proxyjump);
+      if (!hop || hop.host === sshHost || jumpedFrom.includes(hop.host)) {
+        this.log(`Host key: could not follow jump host '${config.proxyjump}' of ${sshHost}; leaving the check to ssh.`);
+        return;
+      }
+      return await this.verifyOnce(hop.host, hop.port ? ['-p', hop.port] : [], policy, [...jumpedFrom, sshHost]);
+    }
+    // Hosts behind a proxy command aren't reachable for a scan
+    if (config.proxycommand && config.proxycommand !== 'none') { return; }
+    const hostname = config.hostname ?? sshHost;
+    const port = Number(config.port ?? 22);
+    const name = config.hostkeyalias ?? (port === 22 ? hostname : `[${hostname}]:${port}`);
+
+    let scanned: ScannedKey[];
+    try {
+      scanned = await this.scan(hostname, port);
+    } catch (e: any) {
+      this.log(`Host key: could not scan ${name} (${String(e?.message ?? e)}); leaving the check to ssh.`);
+      return;
+    }
+    if (!scanned.length) {
+      this.log(`Host key: ${name} returned no keys; leaving the check to ssh.`);
+      return;
+    }
+    const known = await this.knownKeys(name);
+    if (scanned.some(s => known.some(k => k.type === s.type && k.key === s.key))) { return; }
+    // accept-new lets ssh record unknown keys itself; only a changed key needs the user
+    if (!known.length && policy === 'accept-new') { return; }
+
+    const reason = known.length ? 'changed' : 'unknown';
+    const fingerprints = scanned.map(s => `${s.type} ${fingerprint(s.key)}`);
+    const trusted = await this.confirm({ host: name, reason, fingerprints });
+    if (!trusted) { throw new Error(`Host key for ${name} was not trusted`); }
+    await fs.promises.mkdir(path.dirname(this.knownHostsFile), { recursive: true });
+    if (reason === 'changed') {
+      // Drop stale entries we own; entries in the user's own files are left alone and simply no longer matched
+      try { await run('ssh-keygen', ['-R', name, '-f', this.knownHostsFile]); } catch {}
+    }
+    await fs.promises.appendFile(this.knownHostsFile, scanned.map(s => `${name} ${s.type} ${s.key}\n`).join(''), 'utf8');
+    this.log(`Host key: trusted ${name} (${fingerprints.join(', ')}) in ${this.knownHostsFile}`);
+  }
+
+  // ssh -G prints the configuration ssh would use, with ~/.ssh/config and the command line options applied
+  private async effectiveConfig(sshHost: string, sshArgs: string[]): Promise<Record<string, string>> {
+    const out = await run('ssh', ['-G', ...sshArgs, sshHost]);
+    const config: Record<string, string> = {};
+    for (const line of out.split(/\r?\n/)) {
+      const m = /^(\S+)\s+(.*)$/.exec(line.trim());
+      if (m && !(m[1].toLowerCase() in config)) { config[m[1].toLowerCase()] = m[2]; }
+    }
+    return config;
+  }
+
+  private async scan(hostname: string, port: number): Promise<ScannedKey[]> {
+    const out = await run('ssh-keyscan', ['-T', '5', '-p', String(port), hostname]);
+    return parseKeyLines(out);
+  }
+
+  // Keys recorded for the host in the managed file and the user's own known_hosts files
+  private async knownKeys(name: string): Promise<ScannedKey[]> {
+    const files = [this.knownHostsFile, path.join(os.homedir(), '.ssh', 'known_hosts'), path.join(os.homedir(), '.ssh', 'known_hosts2')];
+    const keys: ScannedKey[] = [];
+    for (const file of files) {
+      if (!fs.existsSync(file)) { continue; }
+      // ssh-keygen handles hashed host names and [host]:port entries
+      try { keys.push(...parseKeyLines(await run('ssh-keygen', ['-F', name, '-f', file]))); } catch {}
+    }
+    return keys;
+  }
+}
+
+// First entry of a ProxyJump list, [user@]host[:port] or ssh://[user@]host[:port]; the user doesn't matter for its key
+export function firstJumpHop(proxyJump: string): { host: string; port?: string } | undefined {
+  const hop = proxyJump.split(',')[0].trim().replace(/^ssh:\/\//, '');
+  const m = /^(?:.*@)?(\[[^\]]+\]|[^:@[\]]+)(?::(\d+))?$/.exec(hop);
+  if (!m) { return undefined; }
+  return { host: m[1].replace(/^\[(.*)\]$/, '$1'), port: m[2] };
+}
+
+function parseKeyLines(out: string): ScannedKey[] {
+  const keys: ScannedKey[] = [];
+  for (const line of out.split(/\r?\n/)) {
+    if (!line || line.startsWith('#') || line.startsWith('@')) { continue; }
+    const [, type, key] = line.trim().split(/\s+/);
+    if (type && key) { keys.push({ type, key }); }
+  }
+  return keys;
+}
+
+// The SHA256 fingerprint ssh shows, e.g. SHA256:uNiVztksCsDhcc0u9e8BujQXVUpKZIDTMczCvj3tD2s
+function fingerprint(base64Key: string): string {
+  return 'SHA256:' + crypto.createHash('sha256').update(Buffer.from(base64Key, 'base64')).digest('base64').replace(/=+$/, '');
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { windowsHide: true });
+    const bufs: Buffer[] = [];
+    proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
+    proc.on('error', reject);
+    // ssh-keygen -F exits 1 when nothing matches; an empty result says the same
+    proc.on('close', () => resolve(Buffer.concat(bufs).toString('utf8')));
+  });
+}
@@ -0,0 +1,138 @@
+import * as net from 'net';
+
+// Traffic seen by the proxy, from the local app's point of view: bytesOut is sent to the remote side, bytesIn received from it
+export type ProxyStats = {
+  activeConnections: number;
+  totalConnections: number;
+  bytesIn: number;
+  bytesOut: number;
+  lastActivity?: number;
+};
+
+// Traffic as the panel and details show it: the proxy's counters, or for a forward without the proxy
+// the connections its output reports (OutputTraffic), which has no byte counts
+export type TrafficStats = {
+  activeConnections?: number;
+  totalConnections: number;
+  bytesIn?: number;
+  bytesOut?: number;
+  lastActivity?: number;
+};
+
+// Keeps a forward's public localPort bound while the ssh/kubectl child behind it restarts.
+// New connections wait for the upstream (the child's internal port) instead of being refused.
+export class LocalProxy {
+  private servers: net.Server[] = [];
+  private sockets = new Set<net.Socket>();
+  private closed = false;
+  private stats: ProxyStats = { activeConnections: 0, totalConnections: 0, bytesIn: 0, bytesOut: 0 };
+
+  constructor(
+    public readonly localPort: number,
+    public readonly upstreamPort: number,
+    private log: (line: string) => void,
+    private connectTimeoutMs = 15000
+  ) {}
+
+  public async listen(bindAddress?: string): Promise<void> {
+    if (bindAddress) {
+      await this.listenOn(bindAddress);
+      return;
+    }
+    // IPv4 is required; IPv6 loopback is best effort so `localhost` resolving to ::1 still works
+    await this.listenOn('127.0.0.1');
+    try { await this.listenOn('::1'); } catch {}
+  }
+
+  public getStats(): ProxyStats {
+    return { ...this.stats };
+  }
+
+  public close() {
+    this.closed = true;
+    for (const server of this.servers) {
+      try { server.close(); } catch {}
+    }
+    this.servers = [];
+    for (const socket of this.sockets) { socket.destroy(); }
+    this.sockets.clear();
+  }
+
+  private listenOn(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(client => this.handle(client));
+      server.once('error', reject);
+      server.listen({ host, port: this.localPort }, () => {
+        server.off('error', reject);
+        server.on('error', err => this.log(`Proxy: ${host}:${this.localPort} error ${String(err)}`));
+        this.servers.push(server);
+        resolve();
+      });
+    });
+  }
+
+  private handle(client: net.Socket) {
+    this.track(client);
+    this.stats.activeConnections++;
+    this.stats.totalConnections++;
+    this.stats.lastActivity = Date.now();
+    client.on('close', () => { this.stats.activeConnections--; });
+    client.on('error', () => client.destroy());
+    client.pause();
+    const deadline = Date.now() + this.connectTimeoutMs;
+    const tryConnect = () => {
+      if (this.closed || client.destroyed) { return; }
+      let connected = false;
+      const upstream = net.createConnection({ host: '127.0.0.1', port: this.upstreamPort }, () => {
+        connected = true;
+        this.track(upstream);
+        client.pipe(upstream);
+        upstream.pipe(client);
+        // Count after piping; a data listener on the paused client would otherwise start the flow early
+        client.on('data', (d: Buffer) => { this.stats.bytesOut += d.length; this.stats.lastActivity = Date.now(); });
+        upstream.on('data', (d: Buffer) => { this.stats.bytesIn += d.length; this.stats.lastActivity = Date.now(); });
+        client.resume();
+        client.on('close', () => upstream.destroy());
+        upstream.on('close', () => client.destroy());
+      });
+      upstream.on('error', () => {
+        upstream.destroy();
+        if (connected) { return; }
+        // Upstream is down (child restarting); stall the client until it is back or we time out
+        if (Date.now() >= deadline) {
+          this.log(`Proxy: port ${this.localPort} upstream ${this.upstreamPort} unavailable for ${this.connectTimeoutMs}ms, dropping connection.`);
+          client.destroy();
+          return;
+        }
+        setTimeout(tryConnect, 250);
+      });
+    };
+    tryConnect();
+  }
+
+  private track(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+}
+
+// Let the OS pick an unused port for the child to listen on
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen({ host: '127.0.0.1', port: 0 }, () => {
+      const port = (server.address() as net.AddressInfo).port;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// Whether a listener could bind the port on the loopback address right now
+export function isPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen({ host: '127.0.0.1', port }, () => server.close(() => resolve(true)));
+  });
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { ForwardKey } from './config';
+import { ForwardManager } from './forwardManager';
+
+// Read-only "Forward Log" documents: one forward's ssh/kubectl output, newest last
+export class ForwardLogProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  static readonly scheme = 'local-dependency-forwarder-log';
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  private subscriptions: vscode.Disposable[];
+  // ssh -v is chatty; open logs are refreshed at most this often
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private manager: ForwardManager) {
+    this.subscriptions = [
+      this.onDidChangeEmitter,
+      manager.onDidLog(e => this.scheduleRefresh(e.key))
+    ];
+  }
+
+  public static uriFor(key: ForwardKey): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: ForwardLogProvider.scheme,
+      path: `/${key.envId}-${key.kind}-${key.id}.log`,
+      query: JSON.stringify(key)
+    });
+  }
+
+  public async show(key: ForwardKey): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument(ForwardLogProvider.uriFor(key));
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    const key = JSON.parse(uri.query) as ForwardKey;
+    const lines = this.manager.getLog(key);
+    if (!lines.length) { return `No output from ${key.envId}:${key.kind}:${key.id} yet.\n`; }
+    return lines.join('\n') + '\n';
+  }
+
+  public dispose() {
+    if (this.timer) { clearTimeout(this.timer); }
+    for (const d of this.subscriptions) { d.dispose(); }
+  }
+
+  private scheduleRefresh(key: ForwardKey) {
+    this.pending.add(ForwardLogProvider.uriFor(key).toString());
+    this.timer ??= setTimeout(() => {
+      this.timer = undefined;
+      for (const doc of vscode.workspace.textDocuments) {
+        if (this.pending.has(doc.uri.toString())) { this.onDidChangeEmitter.fire(doc.uri); }
+      }
+      this.pending.clear();
+    }, 500);
+  }
+}
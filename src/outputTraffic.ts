@@ -0,0 +1,51 @@
+import { ForwardKind } from './config';
+import { TrafficStats } from './localProxy';
+
+// kubectl prints a line per connection but none when it ends; ssh -v prints one when a connection is
+// accepted on a -L/-D port and one when its channel is freed
+export function connectionEvent(kind: ForwardKind, line: string): 'open' | 'close' | undefined {
+  if (kind === 'k8s') { return /^Handling connection for \d+/.test(line) ? 'open' : undefined; }
+  if (kind !== 'ssh' && kind !== 'socks') { return undefined; }
+  if (/^debug1: Connection to port \d+ forwarding to .+ requested\.$/.test(line)) { return 'open'; }
+  if (/^debug1: channel \d+: free: (?:direct|dynamic)-tcpip/.test(line)) { return 'close'; }
+  return undefined;
+}
+
+// The local port an ssh connection line is about; a shared connection's lines belong to the forward on that port
+export function connectionPort(line: string): number | undefined {
+  const m = /^debug1: (?:Connection to port (\d+) forwarding|channel \d+: free: direct-tcpip: listening port (\d+) )/.exec(line);
+  return m ? Number(m[1] ?? m[2]) : undefined;
+}
+
+// Connections of a forward without the proxy, counted from its ssh/kubectl output
+export class OutputTraffic {
+  private total = 0;
+  private active = 0;
+  private lastActivity?: number;
+  private partial = '';
+
+  constructor(private kind: ForwardKind) {}
+
+  public append(text: string) {
+    const lines = (this.partial + text).split(/\r?\n/);
+    this.partial = lines.pop() ?? '';
+    for (const line of lines) {
+      const event = connectionEvent(this.kind, line.trim());
+      if (!event) { continue; }
+      this.lastActivity = Date.now();
+      if (event === 'open') {
+        this.total++;
+        this.active++;
+      } else {
+        this.active = Math.max(0, this.active - 1);
+      }
+    }
+  }
+
+  public getStats(): TrafficStats {
+    const stats: TrafficStats = { totalConnections: this.total, lastActivity: this.lastActivity };
+    // kubectl doesn't say when a connection ends
+    if (this.kind !== 'k8s') { stats.activeConnections = this.active; }
+    return stats;
+  }
+}
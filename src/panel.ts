@@ -5,12 +5,20 @@ export type WebviewMessage =
   | { type: 'ready' }
   | { type: 'toggle'; key: ForwardKey }
   | { type: 'toggleAll'; envId: string; start: boolean }
+  | { type: 'toggleProfile'; id: string; start: boolean }
+  | { type: 'details'; key: ForwardKey }
+  | { type: 'copy'; key: ForwardKey }
+  | { type: 'log'; key: ForwardKey }
   // extra messages from webview script
   | { type: 'stopAll' };
 
+// A profile as the panel shows it; state is e.g. "up (3/3)" or "1/3 running"
+export type PanelProfile = { id: string; name: string; state: string; up: boolean; running: number };
+
 export type HostMessage =
-  | { type: 'init'; envs: EnvironmentConfig[]; running: string[]; occupied?: number[]; usage?: { port: number; key: string }[] }
-  | { type: 'status'; running: string[]; occupied?: number[]; usage?: { port: number; key: string }[] };
+  | { type: 'init'; envs: EnvironmentConfig[]; running: string[]; occupied?: number[]; usage?: { port: number; key: string }[]; reconnecting?: { key: string; attempt: number; reason?: string }[]; stats?: { key: string; summary: string }[]; health?: { key: string; ok: boolean; detail: string }[]; failed?: { key: string; reason: string }[]; profiles?: PanelProfile[] }
+  | { type: 'ports'; external: { port: number; holder: string }[] }
+  | { type: 'status'; running: string[]; occupied?: number[]; usage?: { port: number; key: string }[]; reconnecting?: { key: string; attempt: number; reason?: string }[]; stats?: { key: string; summary: string }[]; health?: { key: string; ok: boolean; detail: string }[]; failed?: { key: string; reason: string }[]; profiles?: PanelProfile[] };
 
 export class AdminPanel {
   static readonly viewType = 'localDependencyForwarder.admin';
@@ -18,6 +26,10 @@ export class AdminPanel {
 
   constructor(private context: vscode.ExtensionContext) {}
 
+  public get isOpen(): boolean {
+    return this.panel !== undefined;
+  }
+
   public show(getHtml: (webview: vscode.Webview) => string, onDidDispose: () => void): vscode.Webview {
     if (this.panel) {
       this.panel.reveal();
@@ -66,6 +78,14 @@ export function buildHtml(webview: vscode.Webview, extensionUri: vscode.Uri): st
       .toggle:checked::after { transform: translateX(16px); }
       .muted { color: #465; opacity: .8; font-size: 12px; }
       .blocked { opacity: .5; cursor: not-allowed; }
+      .state { display: block; color: #9a5b00; font-size: 12px; }
+      .state.unhealthy { color: var(--vscode-errorForeground, #c72e0f); }
+      .state.up { color: #2e7d32; }
+      .stats { display: block; color: #465; opacity: .8; font-size: 12px; }
+      .label { cursor: pointer; }
+      .label:hover { text-decoration: underline; }
+      .copy { margin-left: 6px; font-size: 11px; color: #3b82f6; cursor: pointer; opacity: .7; }
+      .copy:hover { opacity: 1; text-decoration: underline; }
     </style>
   </head>
   <body>
@@ -0,0 +1,196 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// A process listening on a local TCP port. pid is missing when the OS doesn't let us see the owner
+// (e.g. another user's process on Linux without root).
+export type PortOwner = {
+  port: number;
+  pid?: number;
+  name?: string;
+  commandLine?: string;
+};
+
+type ProcessInfo = { name?: string; commandLine?: string };
+
+// What earlier calls found out about listeners that are still around: owners per LISTEN socket inode (Linux),
+// process details per pid (elsewhere). Finding them is the slow part; listing the listeners is cheap.
+const linuxOwners = new Map<string, PortOwner[]>();
+const processInfo = new Map<number, ProcessInfo>();
+
+// Listeners on the given ports, keyed by port; ports nobody listens on are absent.
+// reuse: take owners from earlier calls for listeners that haven't changed (e.g. for a display refreshed
+// periodically); without it every owner is looked up again, as before acting on them.
+export async function inspectPorts(ports: number[], reuse = false): Promise<Map<number, PortOwner[]>> {
+  const wanted = new Set(ports);
+  if (!wanted.size) { return new Map(); }
+  let owners: PortOwner[];
+  if (process.platform === 'linux') {
+    owners = await inspectLinux(wanted, reuse);
+  } else if (process.platform === 'win32') {
+    owners = await inspectWindows(wanted, reuse);
+  } else {
+    owners = await inspectLsof(wanted, reuse);
+  }
+  const result = new Map<number, PortOwner[]>();
+  for (const owner of owners) {
+    const list = result.get(owner.port) ?? [];
+    // tcp and tcp6 (or several addresses) often report the same process twice
+    if (!list.some(o => o.pid !== undefined && o.pid === owner.pid)) { list.push(owner); }
+    result.set(owner.port, list);
+  }
+  return result;
+}
+
+export function describeOwner(owner: PortOwner): string {
+  if (owner.pid === undefined) { return 'another process'; }
+  return `${owner.name ?? 'unknown'} (pid ${owner.pid})`;
+}
+
+// Linux: LISTEN sockets from /proc/net/tcp{,6}, matched to processes through their fd symlinks
+async function inspectLinux(wanted: Set<number>, reuse: boolean): Promise<PortOwner[]> {
+  const inodes = new Map<string, number>();
+  const listening = new Set<string>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let text: string;
+    try { text = await fs.promises.readFile(file, 'utf8'); } catch { continue; }
+    for (const line of text.split('\n').slice(1)) {
+      const cols = line.trim().split(/\s+/);
+      // sl local_address rem_address st ... inode; st 0A is LISTEN
+      if (cols.length < 10 || cols[3] !== '0A') { continue; }
+      listening.add(cols[9]);
+      const port = parseInt(cols[1].split(':').pop() ?? '', 16);
+      if (wanted.has(port)) { inodes.set(cols[9], port); }
+    }
+  }
+  for (const inode of linuxOwners.keys()) {
+    if (!listening.has(inode)) { linuxOwners.delete(inode); }
+  }
+  // Only sockets not seen before need the scan through every process' fds
+  const unknown = new Map([...inodes].filter(([inode]) => !reuse || !linuxOwners.has(inode)));
+  if (unknown.size) {
+    const found = await scanLinuxFds(unknown);
+    for (const [inode, port] of unknown) {
+      // Sockets whose owner we can't see still mean the port is taken
+      linuxOwners.set(inode, found.get(inode) ?? [{ port }]);
+    }
+  }
+  return [...inodes.keys()].flatMap(inode => (linuxOwners.get(inode) ?? []).map(owner => ({ ...owner })));
+}
+
+// Owners of the given socket inodes, found through the fd symlinks of every process we may look into
+async function scanLinuxFds(inodes: Map<string, number>): Promise<Map<string, PortOwner[]>> {
+  const owners = new Map<string, PortOwner[]>();
+  let pids: string[] = [];
+  try { pids = (await fs.promises.readdir('/proc')).filter(d => /^\d+$/.test(d)); } catch {}
+  for (const pid of pids) {
+    let fds: string[];
+    try { fds = await fs.promises.readdir(path.join('/proc', pid, 'fd')); } catch { continue; }
+    for (const fd of fds) {
+      let link: string;
+      try { link = await fs.promises.readlink(path.join('/proc', pid, 'fd', fd)); } catch { continue; }
+      const m = /^socket:\[(\d+)\]$/.exec(link);
+      const port = m ? inodes.get(m[1]) : undefined;
+      if (port === undefined) { continue; }
+      owners.set(m![1], [...(owners.get(m![1]) ?? []), { port, pid: Number(pid), ...(await linuxProcessInfo(pid)) }]);
+    }
+  }
+  return owners;
+}
+
+async function linuxProcessInfo(pid: string): Promise<ProcessInfo> {
+  const info: ProcessInfo = {};
+  try { info.name = (await fs.promises.readFile(`/proc/${pid}/comm`, 'utf8')).trim(); } catch {}
+  try {
+    const cmdline = (await fs.promises.readFile(`/proc/${pid}/cmdline`, 'utf8')).split('\0').filter(Boolean).join(' ');
+    if (cmdline) { info.commandLine = cmdline; }
+  } catch {}
+  return info;
+}
+
+// macOS and other unixes: lsof field output (p = pid, c = command, n = address)
+async function inspectLsof(wanted: Set<number>, reuse: boolean): Promise<PortOwner[]> {
+  let out: string;
+  try {
+    out = await run('lsof', ['-nP', '-iTCP', '-sTCP:LISTEN', '-F', 'pcn']);
+  } catch {
+    return [];
+  }
+  const owners: PortOwner[] = [];
+  let pid: number | undefined;
+  let name: string | undefined;
+  for (const line of out.split('\n')) {
+    const value = line.slice(1);
+    if (line.startsWith('p')) { pid = parseInt(value, 10); name = undefined; }
+    if (line.startsWith('c')) { name = value; }
+    if (line.startsWith('n') && pid !== undefined) {
+      const port = parseInt(value.split(':').pop() ?? '', 10);
+      if (wanted.has(port)) { owners.push({ port, pid, name }); }
+    }
+  }
+  return withProcessInfo(owners, reuse, async pid => {
+    try { return { commandLine: (await run('ps', ['-o', 'command=', '-p', String(pid)])).trim() || undefined }; } catch { return {}; }
+  });
+}
+
+// Windows: netstat -ano for listeners, tasklist for names and PowerShell for command lines
+async function inspectWindows(wanted: Set<number>, reuse: boolean): Promise<PortOwner[]> {
+  let out: string;
+  try {
+    out = await run('netstat', ['-ano', '-p', 'TCP']) + '\n' + await run('netstat', ['-ano', '-p', 'TCPv6']);
+  } catch {
+    return [];
+  }
+  const owners: PortOwner[] = [];
+  for (const line of out.split(/\r?\n/)) {
+    // Proto  Local Address  Foreign Address  State  PID
+    const cols = line.trim().split(/\s+/);
+    if (cols.length < 5 || !cols[0].startsWith('TCP') || cols[3] !== 'LISTENING') { continue; }
+    const port = parseInt(cols[1].split(':').pop() ?? '', 10);
+    const pid = parseInt(cols[4], 10);
+    if (wanted.has(port) && !isNaN(pid)) { owners.push({ port, pid }); }
+  }
+  return withProcessInfo(owners, reuse, async pid => {
+    const info: ProcessInfo = {};
+    try {
+      const csv = (await run('tasklist', ['/FI', `PID eq ${pid}`, '/FO', 'CSV', '/NH'])).trim();
+      const m = /^"([^"]+)"/.exec(csv);
+      if (m) { info.name = m[1]; }
+    } catch {}
+    try {
+      const cmd = await run('powershell', ['-NoProfile', '-Command', `(Get-CimInstance Win32_Process -Filter "ProcessId=${pid}").CommandLine`]);
+      info.commandLine = cmd.trim() || undefined;
+    } catch {}
+    return info;
+  });
+}
+
+// Adds what lookup finds about each owner's process; with reuse, pids looked up before (and still listening) aren't again
+async function withProcessInfo(owners: PortOwner[], reuse: boolean, lookup: (pid: number) => Promise<ProcessInfo>): Promise<PortOwner[]> {
+  const pids = new Set(owners.map(o => o.pid));
+  for (const pid of processInfo.keys()) {
+    if (!pids.has(pid)) { processInfo.delete(pid); }
+  }
+  for (const owner of owners) {
+    if (owner.pid === undefined) { continue; }
+    let info = reuse ? processInfo.get(owner.pid) : undefined;
+    if (!info) {
+      info = await lookup(owner.pid);
+      processInfo.set(owner.pid, info);
+    }
+    owner.name ??= info.name;
+    owner.commandLine = info.commandLine;
+  }
+  return owners;
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { windowsHide: true });
+    const bufs: Buffer[] = [];
+    proc.stdout?.on('data', d => bufs.push(Buffer.from(d)));
+    proc.on('error', reject);
+    // lsof exits 1 when nothing matches; the output is still meaningful
+    proc.on('close', () => resolve(Buffer.concat(bufs).toString('utf8')));
+  });
+}
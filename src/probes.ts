@@ -0,0 +1,107 @@
+import * as http from 'http';
+import * as net from 'net';
+import { Probe } from './config';
+
+export type ProbeResult = { ok: boolean; detail: string };
+
+const defaultProbeTimeoutMs = 3000;
+
+// Talk to the service through the forward's local port. A tcp connect alone succeeds against a bare
+// ssh -L listener even when the remote side is dead, so the other probes need an answer from the service.
+export async function runProbe(probe: Probe, port: number): Promise<ProbeResult> {
+  const timeoutMs = probe.timeoutMs ?? defaultProbeTimeoutMs;
+  switch (probe.type) {
+    case 'tcp':
+      return await exchange(port, timeoutMs, undefined, () => ({ ok: true, detail: 'connected' }), true);
+    case 'banner':
+      return await exchange(port, timeoutMs, undefined, buf => {
+        const text = buf.toString('utf8');
+        if (probe.expect && !text.includes(probe.expect)) {
+          return text.length >= 256 ? { ok: false, detail: `banner does not contain '${probe.expect}'` } : undefined;
+        }
+        return { ok: true, detail: `banner ${JSON.stringify(text.split(/\r?\n/)[0].slice(0, 60))}` };
+      });
+    case 'mysql':
+      return await exchange(port, timeoutMs, undefined, buf => {
+        // 3-byte payload length, 1-byte sequence id, then the payload
+        if (buf.length < 5) { return undefined; }
+        const marker = buf[4];
+        if (marker === 0x0a) {
+          const end = buf.indexOf(0, 5);
+          return { ok: true, detail: `mysql ${buf.subarray(5, end > 0 ? end : Math.min(buf.length, 40)).toString('latin1')}` };
+        }
+        if (marker === 0xff) {
+          // Error packet: 2-byte code, then the message
+          return { ok: false, detail: `mysql error: ${buf.subarray(7).toString('utf8').replace(/^#\w{5}/, '').trim()}` };
+        }
+        return { ok: false, detail: 'not a mysql handshake' };
+      });
+    case 'redis':
+      return await exchange(port, timeoutMs, Buffer.from('PING\r\n'), buf => {
+        const line = buf.toString('utf8');
+        if (!line.includes('\r\n')) { return undefined; }
+        if (line.startsWith('+PONG')) { return { ok: true, detail: 'redis PONG' }; }
+        // The server answered, it just wants credentials first
+        if (line.startsWith('-NOAUTH')) { return { ok: true, detail: 'redis (auth required)' }; }
+        return { ok: false, detail: `redis replied ${JSON.stringify(line.trim().slice(0, 60))}` };
+      });
+    case 'amqp':
+      return await exchange(port, timeoutMs, Buffer.from([0x41, 0x4d, 0x51, 0x50, 0, 0, 9, 1]), buf => {
+        // A broker answers with a Connection.Start method frame (type 1), or its own protocol header if it speaks another version
+        if (buf[0] === 0x01) { return { ok: true, detail: 'amqp Connection.Start' }; }
+        if (buf.length >= 8 && buf.subarray(0, 4).toString('latin1') === 'AMQP') {
+          return { ok: true, detail: `amqp broker expects ${buf[5]}-${buf[6]}-${buf[7]}` };
+        }
+        return buf.length ? { ok: false, detail: 'not an amqp broker' } : undefined;
+      });
+    case 'http':
+      return await httpProbe(port, timeoutMs, probe.path ?? '/', probe.expectStatus, probe.host);
+  }
+}
+
+function exchange(
+  port: number,
+  timeoutMs: number,
+  send: Buffer | undefined,
+  parse: (buf: Buffer) => ProbeResult | undefined,
+  onConnect = false
+): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    let settled = false;
+    let buf = Buffer.alloc(0);
+    const finish = (result: ProbeResult) => {
+      if (settled) { return; }
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish({ ok: false, detail: `no answer within ${timeoutMs}ms` }), timeoutMs);
+    const socket = net.createConnection({ host: '127.0.0.1', port }, () => {
+      if (onConnect) { finish(parse(buf) ?? { ok: true, detail: 'connected' }); return; }
+      if (send) { socket.write(send); }
+    });
+    socket.on('data', (d: Buffer) => {
+      buf = Buffer.concat([buf, d]);
+      const result = parse(buf);
+      if (result) { finish(result); }
+    });
+    socket.on('error', err => finish({ ok: false, detail: String((err as NodeJS.ErrnoException).code ?? err) }));
+    // ssh -L accepts locally and closes right away when the remote side is unreachable
+    socket.on('close', () => finish({ ok: false, detail: 'connection closed without an answer' }));
+  });
+}
+
+function httpProbe(port: number, timeoutMs: number, path: string, expectStatus: number | undefined, host: string | undefined): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    const req = http.request({ host: '127.0.0.1', port, path, method: 'GET', timeout: timeoutMs, headers: host ? { host } : undefined }, res => {
+      res.resume();
+      const status = res.statusCode ?? 0;
+      const ok = expectStatus !== undefined ? status === expectStatus : status < 500;
+      resolve({ ok, detail: `http ${status}${ok ? '' : expectStatus !== undefined ? ` (expected ${expectStatus})` : ''}` });
+    });
+    req.on('timeout', () => req.destroy(new Error(`no answer within ${timeoutMs}ms`)));
+    req.on('error', err => resolve({ ok: false, detail: `http ${String((err as NodeJS.ErrnoException).code ?? err.message)}` }));
+    req.end();
+  });
+}
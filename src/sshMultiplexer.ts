@@ -0,0 +1,197 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// One ssh connection: the host and every flag except the forward itself
+export type MasterSpec = { host: string; args: string[] };
+
+// A forward added to a shared connection with ssh -O forward, e.g. ['-L', '3316:10.0.0.5:3306']
+export type MuxSpec = { master: MasterSpec; forwardArgs: string[] };
+
+const connectTimeoutMs = 30000;
+
+// Shares one ssh connection per host between forwards: a ControlMaster owned by the extension,
+// with forwards added and cancelled on it (ssh -O forward/cancel) instead of one ssh process each.
+export class SshMultiplexer {
+  private masters = new Map<string, SshMaster>();
+
+  // env gives the master's environment, e.g. so its password prompts reach VS Code;
+  // output gets each line ssh prints for a connection, by control socket (by default it is logged)
+  constructor(
+    private log: (line: string) => void,
+    private env: (label: string) => NodeJS.ProcessEnv | undefined = () => undefined,
+    private output: (socket: string, line: string) => void = (_socket, line) => log(line)
+  ) {}
+
+  // Unix sockets have a short path limit, so they live in a private directory under the temp dir.
+  // The pid keeps other windows and `ldf up` on their own connections; they start and close theirs independently.
+  public socketFor(spec: MasterSpec): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify([process.pid, spec.host, spec.args])).digest('hex').slice(0, 16);
+    return path.join(os.tmpdir(), `ldf-${os.userInfo().uid}`, `${hash}.sock`);
+  }
+
+  public isConnected(spec: MasterSpec): boolean {
+    return this.masters.get(this.socketFor(spec))?.connected ?? false;
+  }
+
+  // The live master for the connection, started if needed; the caller holds it until release()
+  public async acquire(spec: MasterSpec): Promise<SshMaster> {
+    const socket = this.socketFor(spec);
+    let master = this.masters.get(socket);
+    if (!master || master.closed) {
+      master = new SshMaster(spec, socket, this.log, line => this.output(socket, line), this.env(masterLabel(spec)));
+      this.masters.set(socket, master);
+      const started = master;
+      master.onExit(() => { if (this.masters.get(socket) === started) { this.masters.delete(socket); } });
+    }
+    master.hold();
+    try {
+      await master.ready;
+    } catch (e) {
+      master.release();
+      throw e;
+    }
+    return master;
+  }
+}
+
+export class SshMaster {
+  public readonly ready: Promise<void>;
+  public connected = false;
+  public closed = false;
+  public process?: ChildProcess;
+  private holds = 0;
+  private listeners = new Set<(reason: string) => void>();
+  private stderrTail: string[] = [];
+
+  constructor(private spec: MasterSpec, public readonly socket: string, private log: (line: string) => void, private output: (line: string) => void, private env?: NodeJS.ProcessEnv) {
+    this.ready = this.start().catch(e => {
+      this.closed = true;
+      throw e;
+    });
+    // Failures reach callers through acquire(); don't report them as unhandled
+    this.ready.catch(() => {});
+  }
+
+  public hold() {
+    this.holds++;
+  }
+
+  // Drop a hold, cancelling its forward on the connection; the last one closes the connection
+  public release(forwardArgs?: string[]) {
+    this.holds--;
+    if (this.holds <= 0) {
+      this.close();
+    } else if (forwardArgs && this.connected) {
+      this.control('cancel', forwardArgs).catch(e => this.log(`Multiplex: cancel ${forwardArgs.join(' ')} failed: ${String(e?.message ?? e)}`));
+    }
+  }
+
+  public async forward(forwardArgs: string[]): Promise<void> {
+    await this.control('forward', forwardArgs);
+  }
+
+  // Called once when the connection goes away; returns a function that unsubscribes
+  public onExit(listener: (reason: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public close() {
+    if (this.closed) { return; }
+    this.closed = true;
+    try { this.process?.kill(); } catch {}
+  }
+
+  private controlArgs(command: 'forward' | 'cancel' | 'check' | 'exit', forwardArgs: string[] = []): string[] {
+    return controlArgs(this.socket, this.spec.host, command, forwardArgs);
+  }
+
+  private async start(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.socket), { recursive: true, mode: 0o700 });
+    // Only an earlier process with the same pid used this path, so whatever is there is left over:
+    // a master that still answers has lost its owner and is ended, a socket that doesn't is stale.
+    // Either would make ssh run without multiplexing.
+    if (fs.existsSync(this.socket)) {
+      const live = await run('ssh', this.controlArgs('check')).then(() => true, () => false);
+      if (live) { await run('ssh', this.controlArgs('exit')).catch(() => undefined); }
+      await fs.promises.rm(this.socket, { force: true });
+    }
+    const args = masterArgs(this.socket, this.spec);
+    this.log(`Multiplex: ssh ${args.join(' ')}`);
+    const child = spawn('ssh', args, { stdio: 'pipe', env: this.env });
+    this.process = child;
+    let partial = '';
+    child.stderr?.on('data', d => {
+      const lines = (partial + d.toString()).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      for (const line of lines.filter(Boolean)) { this.output(line); }
+      this.stderrTail = [...this.stderrTail, ...lines.filter(Boolean)].slice(-5);
+    });
+    let exitReason: string | undefined;
+    child.on('error', err => { exitReason ??= String(err); });
+    child.on('exit', (code, signal) => {
+      exitReason ??= `code=${code} signal=${signal}`;
+      this.closed = true;
+      this.connected = false;
+      this.log(`Multiplex: connection to ${this.spec.host} closed (${exitReason})`);
+      const listeners = [...this.listeners];
+      this.listeners.clear();
+      for (const listener of listeners) { listener(`ssh connection to ${this.spec.host} closed (${exitReason})`); }
+    });
+
+    // The socket answers once authentication is done
+    const deadline = Date.now() + connectTimeoutMs;
+    for (;;) {
+      if (this.closed) {
+        const detail = this.stderrTail.filter(l => !l.startsWith('debug')).pop() ?? exitReason ?? 'closed';
+        throw new Error(`ssh connection to ${this.spec.host} failed: ${detail}`);
+      }
+      if (fs.existsSync(this.socket) && await run('ssh', this.controlArgs('check')).then(() => true, () => false)) { break; }
+      if (Date.now() >= deadline) {
+        this.close();
+        throw new Error(`ssh connection to ${this.spec.host} not up within ${connectTimeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    this.connected = true;
+  }
+
+  private async control(command: 'forward' | 'cancel', forwardArgs: string[]): Promise<void> {
+    if (this.closed) { throw new Error(`ssh connection to ${this.spec.host} is closed`); }
+    await run('ssh', this.controlArgs(command, forwardArgs));
+  }
+}
+
+// Label the master's ssh prompts carry (see AskpassBridge)
+export function masterLabel(spec: MasterSpec): string {
+  return `ssh ${spec.host}`;
+}
+
+// The ssh command line of the shared connection itself; -v so its forwards' connections show in the output
+export function masterArgs(socket: string, spec: MasterSpec): string[] {
+  return ['-v', '-N', '-o', 'ControlMaster=yes', '-o', `ControlPath=${socket}`, '-o', 'ControlPersist=no', ...spec.args, spec.host];
+}
+
+// ssh -O command line for a control socket; also shown as a multiplexed forward's command
+export function controlArgs(socket: string, host: string, command: string, forwardArgs: string[] = []): string[] {
+  return ['-S', socket, '-O', command, ...forwardArgs, host];
+}
+
+// Resolves with stdout on exit code 0, otherwise rejects with what ssh printed
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { windowsHide: true });
+    const out: Buffer[] = [];
+    const err: Buffer[] = [];
+    proc.stdout?.on('data', d => out.push(Buffer.from(d)));
+    proc.stderr?.on('data', d => err.push(Buffer.from(d)));
+    proc.on('error', reject);
+    proc.on('close', code => {
+      if (code === 0) { resolve(Buffer.concat(out).toString('utf8')); }
+      else { reject(new Error(Buffer.concat(err).toString('utf8').trim() || `${command} exited with code ${code}`)); }
+    });
+  });
+}
@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { ForwardManager } from './forwardManager';
+
+// "n/m forwards up", where m counts every forward that should be up (running, reconnecting or failed); unhealthy ones are not up
+export class ForwardStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  private subscriptions: vscode.Disposable[];
+
+  constructor(private manager: ForwardManager) {
+    this.item.command = 'local-dependency-forwarder.openPanel';
+    this.subscriptions = [
+      this.item,
+      manager.onDidChange(() => this.update()),
+      manager.onDidChangeEnvironments(() => this.update())
+    ];
+    this.update();
+    this.item.show();
+  }
+
+  private update() {
+    const running = this.manager.getRunningKeys().length;
+    const reconnecting = this.manager.getReconnecting();
+    const failed = this.manager.getFailed();
+    const unhealthy = this.manager.getHealth().filter(h => !h.ok && !reconnecting.some(r => r.key === h.key));
+    const up = running - reconnecting.length - unhealthy.length;
+    const wanted = running + failed.length;
+    const degraded = reconnecting.length + failed.length + unhealthy.length;
+    this.item.text = `$(${degraded ? 'warning' : 'plug'}) ${up}/${wanted} forwards up`;
+    this.item.backgroundColor = degraded ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+    const lines = [
+      ...reconnecting.map(r => `${r.key}: reconnecting (attempt ${r.attempt})`),
+      ...unhealthy.map(h => `${h.key}: unhealthy (${h.detail})`),
+      ...failed.map(f => `${f.key}: ${f.reason}`)
+    ];
+    this.item.tooltip = lines.length ? lines.join('\n') : 'Local Dependency Forwarder: open panel';
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions) { d.dispose(); }
+  }
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { EnvironmentConfig, mergeProfiles, parseLocalPort, resolveForwardTargets, resolveProfile } from '../config';
+
+const envs: EnvironmentConfig[] = [
+	{
+		id: 'dev',
+		name: 'Dev',
+		sshTunnels: [{ id: 'db', title: 'MySQL', sshHost: 'bastion', localPort: 3306, remoteHost: 'db.internal', remotePort: 3306 }],
+		k8sForwards: [
+			{ id: 'api', title: 'API', namespace: 'app', serviceName: 'api', localPort: 8080, remotePort: 80 },
+			{ id: 'db', title: 'Postgres', namespace: 'app', serviceName: 'db', localPort: 5432, remotePort: 5432 }
+		]
+	},
+	{ id: 'prod', name: 'Prod', sshTunnels: [], k8sForwards: [] }
+];
+
+suite('parseLocalPort', () => {
+	test('fixed ports', () => {
+		assert.deepStrictEqual(parseLocalPort(8080), { from: 8080, to: 8080 });
+		assert.strictEqual(parseLocalPort(0), undefined);
+		assert.strictEqual(parseLocalPort(65536), undefined);
+		assert.strictEqual(parseLocalPort(80.5), undefined);
+	});
+
+	test('auto and ranges', () => {
+		assert.strictEqual(parseLocalPort('auto'), 'auto');
+		assert.deepStrictEqual(parseLocalPort('20000-20100'), { from: 20000, to: 20100 });
+		assert.deepStrictEqual(parseLocalPort('3000-3000'), { from: 3000, to: 3000 });
+	});
+
+	test('invalid strings', () => {
+		assert.strictEqual(parseLocalPort('20100-20000'), undefined);
+		assert.strictEqual(parseLocalPort('0-10'), undefined);
+		assert.strictEqual(parseLocalPort('1-70000'), undefined);
+		assert.strictEqual(parseLocalPort('8080'), undefined);
+		assert.strictEqual(parseLocalPort('any'), undefined);
+	});
+});
+
+suite('resolveForwardTargets', () => {
+	test('an environment is all its forwards in display order', () => {
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['dev']), [
+			{ envId: 'dev', kind: 'ssh', id: 'db' },
+			{ envId: 'dev', kind: 'k8s', id: 'api' },
+			{ envId: 'dev', kind: 'k8s', id: 'db' }
+		]);
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['prod']), []);
+	});
+
+	test('single forwards by id, kind:id or key', () => {
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['dev/api']), [{ envId: 'dev', kind: 'k8s', id: 'api' }]);
+		// A bare id shared by several kinds picks the first kind
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['dev/db']), [{ envId: 'dev', kind: 'ssh', id: 'db' }]);
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['dev/k8s:db']), [{ envId: 'dev', kind: 'k8s', id: 'db' }]);
+		assert.deepStrictEqual(resolveForwardTargets(envs, ['dev:k8s:db']), [{ envId: 'dev', kind: 'k8s', id: 'db' }]);
+	});
+
+	test('unknown references throw', () => {
+		assert.throws(() => resolveForwardTargets(envs, ['staging']), /Unknown environment 'staging' in 'staging'/);
+		assert.throws(() => resolveForwardTargets(envs, ['dev/cache']), /Unknown forward 'dev\/cache'/);
+		assert.throws(() => resolveForwardTargets(envs, ['dev/socks:api']), /Unknown forward/);
+	});
+});
+
+suite('resolveProfile', () => {
+	test('keys are deduplicated and unknown references returned separately', () => {
+		const { keys, unknown } = resolveProfile(envs, { id: 'backend', forwards: ['dev/api', 'dev', 'dev/cache', 'staging'] });
+		assert.deepStrictEqual(keys, [
+			{ envId: 'dev', kind: 'k8s', id: 'api' },
+			{ envId: 'dev', kind: 'ssh', id: 'db' },
+			{ envId: 'dev', kind: 'k8s', id: 'db' }
+		]);
+		assert.deepStrictEqual(unknown, ['dev/cache', 'staging']);
+	});
+});
+
+suite('mergeProfiles', () => {
+	test('a later file replaces profiles by id and invalid entries are skipped', () => {
+		const profiles = mergeProfiles([
+			[{ id: 'a', name: 'A', forwards: ['dev'] }, { id: 'b', forwards: ['prod'] }],
+			undefined,
+			[{ id: 'a', forwards: ['dev/api', 42] }, { id: 'c' }, 'x']
+		]);
+		assert.deepStrictEqual(profiles, [
+			{ id: 'a', name: undefined, forwards: ['dev/api'] },
+			{ id: 'b', name: undefined, forwards: ['prod'] }
+		]);
+	});
+});
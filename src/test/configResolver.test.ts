@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { ResolveContext, resolveEnvironments } from '../configResolver';
+
+const context: ResolveContext = { workspaceFolder: '/work/app', userHome: '/home/me', env: { DB_HOST: 'db.internal', TUNNEL_PORT: '13306' } };
+
+suite('resolveEnvironments', () => {
+	test('same-id environments merge, forwards by id', () => {
+		const { envs, problems } = resolveEnvironments([
+			[{ id: 'dev', name: 'Dev', sshTunnels: [{ id: 'db', sshHost: 'bastion', localPort: 3306, remoteHost: 'db', remotePort: 3306, sshOptions: { ServerAliveInterval: '30' } }], k8sForwards: [] }],
+			[{ id: 'dev', sshTunnels: [{ id: 'db', localPort: 13306, sshOptions: { Compression: 'yes' } }, { id: 'cache', sshHost: 'bastion', localPort: 6379, remoteHost: 'cache', remotePort: 6379 }] }]
+		], context);
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(envs, [{
+			id: 'dev',
+			name: 'Dev',
+			sshTunnels: [
+				{ id: 'db', sshHost: 'bastion', localPort: 13306, remoteHost: 'db', remotePort: 3306, sshOptions: { ServerAliveInterval: '30', Compression: 'yes' } },
+				{ id: 'cache', sshHost: 'bastion', localPort: 6379, remoteHost: 'cache', remotePort: 6379 }
+			],
+			k8sForwards: []
+		}]);
+	});
+
+	test('extends inherits from its parent and abstract environments are left out', () => {
+		const { envs, problems } = resolveEnvironments([[
+			{ id: 'base', abstract: true, name: 'Base', hostKeyPolicy: 'accept-new', sshTunnels: [], k8sForwards: [{ id: 'api', namespace: 'app', serviceName: 'api', localPort: 8080, remotePort: 80 }] },
+			{ id: 'staging', extends: 'base', name: 'Staging', k8sForwards: [{ id: 'api', namespace: 'staging' }] }
+		]], context);
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(envs, [{
+			id: 'staging',
+			name: 'Staging',
+			hostKeyPolicy: 'accept-new',
+			sshTunnels: [],
+			k8sForwards: [{ id: 'api', namespace: 'staging', serviceName: 'api', localPort: 8080, remotePort: 80 }]
+		}]);
+	});
+
+	test('unknown parents and cycles are reported', () => {
+		const { envs, problems } = resolveEnvironments([[
+			{ id: 'a', extends: 'b', sshTunnels: [], k8sForwards: [] },
+			{ id: 'b', extends: 'a', sshTunnels: [], k8sForwards: [] },
+			{ id: 'c', extends: 'missing', sshTunnels: [], k8sForwards: [] }
+		]], context);
+		assert.deepStrictEqual(envs.map(e => e.id), ['a', 'b', 'c']);
+		assert.deepStrictEqual(problems.map(p => p.message), [
+			'Env b: extends cycle a -> b -> a',
+			'Env c: extends \'missing\' is not an environment'
+		]);
+		assert.ok(problems.every(p => p.severity === 'error' && p.path[0] === 'extends'));
+	});
+
+	test('defaults fill in fields a forward leaves out', () => {
+		const { envs } = resolveEnvironments([[{
+			id: 'dev',
+			defaults: { sshHost: 'bastion', namespace: 'app', sshOptions: { ServerAliveInterval: '30' } },
+			sshTunnels: [
+				{ id: 'db', localPort: 3306, remoteHost: 'db', remotePort: 3306 },
+				{ id: 'cache', sshHost: 'other', localPort: 6379, remoteHost: 'cache', remotePort: 6379, sshOptions: { Compression: 'yes' } }
+			],
+			k8sForwards: [{ id: 'api', serviceName: 'api', localPort: 8080, remotePort: 80 }]
+		}]], context);
+		const env = envs[0];
+		assert.strictEqual('defaults' in env, false);
+		assert.deepStrictEqual(env.sshTunnels.map(t => [t.sshHost, t.sshOptions]), [
+			['bastion', { ServerAliveInterval: '30' }],
+			['other', { ServerAliveInterval: '30', Compression: 'yes' }]
+		]);
+		// Only fields of the forward's kind are taken
+		assert.strictEqual(env.k8sForwards[0].namespace, 'app');
+		assert.strictEqual('sshHost' in env.k8sForwards[0], false);
+	});
+
+	test('variables are substituted and port fields become numbers', () => {
+		const { envs, problems } = resolveEnvironments([[{
+			id: 'dev',
+			variables: { host: '${env:DB_HOST}', keys: '${userHome}/.ssh' },
+			sshTunnels: [{ id: 'db', sshHost: 'bastion', identityFile: '${var:keys}/id_dev', localPort: '${env:TUNNEL_PORT}', remoteHost: '${var:host}', remotePort: 3306 }],
+			k8sForwards: [{ id: 'api', namespace: 'app', serviceName: 'api', kubeconfig: '${workspaceFolder}/kubeconfig', localPort: 8080, remotePort: 80 }]
+		}]], context);
+		assert.deepStrictEqual(problems, []);
+		const [tunnel] = envs[0].sshTunnels;
+		assert.strictEqual(tunnel.identityFile, '/home/me/.ssh/id_dev');
+		assert.strictEqual(tunnel.remoteHost, 'db.internal');
+		assert.strictEqual(tunnel.localPort, 13306);
+		assert.strictEqual(envs[0].k8sForwards[0].kubeconfig, '/work/app/kubeconfig');
+		assert.strictEqual('variables' in envs[0], false);
+	});
+
+	test('unresolvable variables are reported', () => {
+		const { envs, problems } = resolveEnvironments([[{
+			id: 'dev',
+			variables: { nested: '${var:other}' },
+			sshTunnels: [{ id: 'db', sshHost: '${var:missing}', localPort: 3306, remoteHost: '${env:UNSET}', remotePort: 3306 }],
+			k8sForwards: [{ id: 'api', namespace: 'app', serviceName: 'api', kubeconfig: '${workspaceFolder}/kubeconfig', localPort: 8080, remotePort: 80 }]
+		}]], { userHome: '/home/me', env: {} });
+		assert.deepStrictEqual(problems.map(p => [p.severity, p.message, p.path.join('.')]), [
+			['error', 'Env dev: unknown variable \'other\' (variables can only use ${env:...}, ${workspaceFolder} and ${userHome})', 'variables.nested'],
+			['error', 'Env dev: unknown variable \'missing\'', 'sshTunnels.0.sshHost'],
+			['warning', 'Env dev: environment variable UNSET is not set', 'sshTunnels.0.remoteHost'],
+			['error', 'Env dev: ${workspaceFolder} needs an open folder', 'k8sForwards.0.kubeconfig']
+		]);
+		// Unknown variables stay as written, unset environment variables become empty
+		assert.strictEqual(envs[0].sshTunnels[0].sshHost, '${var:missing}');
+		assert.strictEqual(envs[0].sshTunnels[0].remoteHost, '');
+	});
+});
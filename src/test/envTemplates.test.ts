@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { expandTemplate, renderEnvFile, substituteForwardPorts, unknownTemplateVariables } from '../envTemplates';
+
+const blockStart = '# >>> local-dependency-forwarder (generated from running forwards, edits are overwritten)';
+const blockEnd = '# <<< local-dependency-forwarder';
+
+suite('renderEnvFile', () => {
+	test('the block is appended after existing content', () => {
+		assert.strictEqual(renderEnvFile('', { DB_PORT: '3306' }), `${blockStart}\nDB_PORT=3306\n${blockEnd}\n`);
+		assert.strictEqual(renderEnvFile('APP=1\n\n', { DB_PORT: '3306' }), `APP=1\n\n${blockStart}\nDB_PORT=3306\n${blockEnd}\n`);
+	});
+
+	test('the old block is dropped, the new one goes last; no vars leaves none', () => {
+		const existing = `APP=1\r\n\r\n${blockStart}\r\nDB_PORT=3306\r\n${blockEnd}\r\nOTHER=2\r\n`;
+		assert.strictEqual(renderEnvFile(existing, { API_PORT: '8080' }), `APP=1\n\nOTHER=2\n\n${blockStart}\nAPI_PORT=8080\n${blockEnd}\n`);
+		assert.strictEqual(renderEnvFile(existing, {}), 'APP=1\n\nOTHER=2\n');
+		assert.strictEqual(renderEnvFile(`${blockStart}\nDB_PORT=3306\n${blockEnd}\n`, {}), '');
+	});
+
+	test('an unterminated block runs to the end of the file', () => {
+		assert.strictEqual(renderEnvFile(`APP=1\n${blockStart}\nDB_PORT=3306\n`, {}), 'APP=1\n');
+	});
+
+	test('values are quoted when they need it', () => {
+		const rendered = renderEnvFile('', {
+			URL: 'mysql://me@127.0.0.1:3306/app?ssl=true&x=1',
+			GREETING: 'hello world',
+			QUOTED: 'say "hi" \\o/',
+			MULTI: 'a\nb'
+		});
+		assert.deepStrictEqual(rendered.split('\n').slice(1, -2), [
+			'URL=mysql://me@127.0.0.1:3306/app?ssl=true&x=1',
+			'GREETING="hello world"',
+			'QUOTED="say \\"hi\\" \\\\o/"',
+			'MULTI="a\\nb"'
+		]);
+	});
+});
+
+suite('env templates', () => {
+	test('known placeholders are expanded, others left as written', () => {
+		assert.strictEqual(expandTemplate('mysql://127.0.0.1:${localPort}/${db}', { localPort: '13306' }), 'mysql://127.0.0.1:13306/${db}');
+		assert.deepStrictEqual(unknownTemplateVariables('${localPort} ${db} ${remoteHost} ${port}'), ['db', 'port']);
+	});
+
+	test('forward port references', () => {
+		const ports: Record<string, number> = { 'dev/api': 8080 };
+		assert.strictEqual(substituteForwardPorts('http://localhost:${forward:dev/api.port} ${forward:dev/db.port}', ref => ports[ref]), 'http://localhost:8080 ${forward:dev/db.port}');
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { ForwardLogBuffer, classifyForwardError } from '../forwardLog';
+
+suite('classifyForwardError', () => {
+	test('ssh failures', () => {
+		assert.strictEqual(classifyForwardError('ssh', ['ssh: Could not resolve hostname bastion.example: Name or service not known']), 'DNS lookup failed for bastion.example');
+		assert.strictEqual(classifyForwardError('socks', ['me@bastion: Permission denied (publickey,password).']), 'authentication denied (publickey,password)');
+		assert.strictEqual(classifyForwardError('ssh', ['ssh: connect to host 10.0.0.1 port 22: Connection timed out']), 'host 10.0.0.1:22 unreachable (connection timed out)');
+		assert.strictEqual(classifyForwardError('remote', ['Warning: remote port forwarding failed for listen port 9000']), 'remote port 9000 is taken or not allowed on the ssh host');
+	});
+
+	test('the cause wins over the lines ssh prints after it', () => {
+		const lines = [
+			'bind [127.0.0.1]:3306: Address already in use',
+			'channel_setup_fwd_listener_tcpip: cannot listen to port: 3306',
+			'Could not request local forwarding.'
+		];
+		assert.strictEqual(classifyForwardError('ssh', lines), 'local port 3306 is already in use (ExitOnForwardFailure)');
+	});
+
+	test('the newest line of a kind wins', () => {
+		const lines = ['Connection closed by 10.0.0.1 port 22', 'Connection reset by 10.0.0.2 port 22'];
+		assert.strictEqual(classifyForwardError('ssh', lines), 'connection closed by 10.0.0.2');
+	});
+
+	test('kubectl failures', () => {
+		assert.strictEqual(classifyForwardError('k8s', ['error: You must be logged in to the server (Unauthorized)']), 'Kubernetes credentials expired or were rejected; log in again');
+		assert.strictEqual(classifyForwardError('k8s', ['Error from server (NotFound): pods "api-7d9f" not found']), 'pod api-7d9f is not running');
+		assert.strictEqual(classifyForwardError('k8s', ['Unable to listen on port 8080: Listeners failed to create with the following errors']), 'local port 8080 is already in use');
+		assert.strictEqual(classifyForwardError('k8s', ['spawn kubectl ENOENT']), 'kubectl was not found on PATH');
+	});
+
+	test('patterns only apply to their kinds', () => {
+		assert.strictEqual(classifyForwardError('k8s', ['Permission denied (publickey).']), undefined);
+		assert.strictEqual(classifyForwardError('ssh', ['error: You must be logged in to the server (Unauthorized)']), undefined);
+		assert.strictEqual(classifyForwardError('ssh', []), undefined);
+	});
+});
+
+suite('ForwardLogBuffer', () => {
+	// Lines are stored with the time they arrived
+	const text = (lines: string[]) => lines.map(line => line.replace(/^\d\d:\d\d:\d\d /, ''));
+
+	test('chunks are split into lines, the unfinished one comes last', () => {
+		const logs = new ForwardLogBuffer();
+		assert.deepStrictEqual(logs.lines('dev:ssh:db'), []);
+		logs.append('dev:ssh:db', 'first\n\nsec');
+		assert.deepStrictEqual(text(logs.lines('dev:ssh:db')), ['first', 'sec']);
+		logs.append('dev:ssh:db', 'ond\r\nthird\n');
+		assert.deepStrictEqual(text(logs.lines('dev:ssh:db')), ['first', 'second', 'third']);
+	});
+
+	test('lines since a mark, within the capacity', () => {
+		const logs = new ForwardLogBuffer(2);
+		logs.append('dev:k8s:api', 'a\nb\n');
+		const mark = logs.mark('dev:k8s:api');
+		assert.deepStrictEqual(logs.since('dev:k8s:api', mark), []);
+		logs.append('dev:k8s:api', 'c\nd\ne\n');
+		assert.deepStrictEqual(text(logs.since('dev:k8s:api', mark)), ['d', 'e']);
+		assert.deepStrictEqual(text(logs.since('dev:k8s:api', 4)), ['e']);
+	});
+});
@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import { EnvironmentConfig, ForwardKey, SshTunnel } from '../config';
+import { ForwardManager, backoffDelay, describeStartReport } from '../forwardManager';
+
+function tunnel(id: string, localPort: number, dependsOn?: string[]): SshTunnel {
+	return { id, title: id, sshHost: 'bastion', localPort, remoteHost: id, remotePort: localPort, dependsOn };
+}
+
+function ssh(envId: string, id: string): ForwardKey {
+	return { envId, kind: 'ssh', id };
+}
+
+function createManager(envs: EnvironmentConfig[]): { manager: ForwardManager; lines: string[] } {
+	const lines: string[] = [];
+	const manager = new ForwardManager(envs, { output: { append: () => {}, appendLine: line => lines.push(line) } });
+	return { manager, lines };
+}
+
+suite('describeStartReport', () => {
+	test('nothing to say when everything started', () => {
+		assert.strictEqual(describeStartReport({ started: [ssh('dev', 'db')], failed: [], blocked: [] }), '');
+	});
+
+	test('failures, then what each one blocked', () => {
+		const report = {
+			started: [],
+			failed: [{ key: ssh('dev', 'db'), error: 'port 3306 in use' }],
+			blocked: [
+				{ key: ssh('dev', 'api'), by: ssh('dev', 'db'), error: 'port 3306 in use' },
+				{ key: ssh('dev', 'web'), by: ssh('dev', 'db'), error: 'port 3306 in use' }
+			]
+		};
+		assert.strictEqual(describeStartReport(report), 'dev:ssh:db failed (port 3306 in use) | api, web blocked by dev:ssh:db');
+	});
+});
+
+suite('backoffDelay', () => {
+	const policy = { mode: 'on-failure' as const, maxRetries: 5, initialDelayMs: 1000, maxDelayMs: 30000 };
+	const random = Math.random;
+	teardown(() => { Math.random = random; });
+
+	test('doubles per attempt, half of it jittered', () => {
+		Math.random = () => 0;
+		assert.deepStrictEqual([1, 2, 3, 4].map(n => backoffDelay(n, policy)), [500, 1000, 2000, 4000]);
+		Math.random = () => 0.999999;
+		assert.deepStrictEqual([1, 2, 3, 4].map(n => backoffDelay(n, policy)), [1000, 2000, 4000, 8000]);
+	});
+
+	test('capped at maxDelayMs', () => {
+		Math.random = () => 0.5;
+		assert.strictEqual(backoffDelay(10, policy), 22500);
+		assert.strictEqual(backoffDelay(50, { ...policy, maxDelayMs: 2000 }), 1500);
+	});
+});
+
+suite('startWithDependencies', () => {
+	const envs: EnvironmentConfig[] = [{
+		id: 'dev',
+		name: 'Dev',
+		sshTunnels: [tunnel('web', 8000, ['api']), tunnel('api', 8080, ['db', 'cache']), tunnel('db', 3306), tunnel('cache', 6379), tunnel('loop', 9000, ['back']), tunnel('back', 9001, ['loop'])],
+		k8sForwards: []
+	}];
+
+	// Records starts and readiness instead of spawning anything; the forwards named in `failing` fail to start
+	function stubbed(failing: string[] = []) {
+		const { manager } = createManager(envs);
+		const events: string[] = [];
+		manager.start = async key => {
+			events.push(`start ${key.id}`);
+			await new Promise(resolve => setTimeout(resolve, 1));
+			if (failing.includes(key.id)) { throw new Error(`${key.id} failed`); }
+		};
+		manager.waitUntilReady = async key => {
+			events.push(`ready ${key.id}`);
+		};
+		return { manager, events };
+	}
+
+	test('dependencies start and are ready first', async () => {
+		const { manager, events } = stubbed();
+		const report = await manager.startWithDependencies([ssh('dev', 'web')]);
+		assert.deepStrictEqual(report.failed, []);
+		assert.deepStrictEqual(report.blocked, []);
+		assert.deepStrictEqual(report.started.map(k => k.id).sort(), ['api', 'cache', 'db', 'web']);
+		// db and cache start side by side
+		assert.deepStrictEqual(events.slice(0, 2).sort(), ['start cache', 'start db']);
+		assert.deepStrictEqual(events.slice(2, 4).sort(), ['ready cache', 'ready db']);
+		assert.deepStrictEqual(events.slice(4), ['start api', 'ready api', 'start web', 'ready web']);
+	});
+
+	test('a failed dependency blocks what depends on it', async () => {
+		const { manager, events } = stubbed(['db']);
+		const report = await manager.startWithDependencies([ssh('dev', 'web')]);
+		assert.deepStrictEqual(report.started, [ssh('dev', 'cache')]);
+		assert.deepStrictEqual(report.failed, [{ key: ssh('dev', 'db'), error: 'db failed' }]);
+		// Blocked forwards name the forward that failed, not the one in between
+		assert.deepStrictEqual(report.blocked, [
+			{ key: ssh('dev', 'api'), by: ssh('dev', 'db'), error: 'db failed' },
+			{ key: ssh('dev', 'web'), by: ssh('dev', 'db'), error: 'db failed' }
+		]);
+		assert.ok(!events.includes('start api'));
+	});
+
+	test('a cycle fails the forward it leads back to and starts nothing', async () => {
+		const { manager, events } = stubbed();
+		const report = await manager.startWithDependencies([ssh('dev', 'loop')]);
+		assert.deepStrictEqual(report.started, []);
+		assert.strictEqual(describeStartReport(report), 'dev:ssh:loop failed (dependency cycle dev:ssh:loop -> dev:ssh:back -> dev:ssh:loop) | back blocked by dev:ssh:loop');
+		assert.deepStrictEqual(events, []);
+	});
+});
+
+suite('exclusive groups', () => {
+	const envs: EnvironmentConfig[] = [
+		{ id: 'a', name: 'A', exclusiveGroup: 'cluster', sshTunnels: [tunnel('db', 3306), tunnel('api', 8080)], k8sForwards: [] },
+		{ id: 'b', name: 'B', exclusiveGroup: 'cluster', sshTunnels: [tunnel('db', 3306)], k8sForwards: [] },
+		{ id: 'c', name: 'C', sshTunnels: [tunnel('cache', 6379)], k8sForwards: [] }
+	];
+
+	// The manager's bookkeeping, filled in by hand instead of spawning ssh
+	type Internals = {
+		processes: Map<string, { key: ForwardKey; localPort: number }>;
+		starting: Map<string, Promise<void>>;
+		switchExclusiveGroup(env: EnvironmentConfig): Promise<void>;
+	};
+
+	function running(manager: ForwardManager, ...keys: ForwardKey[]): Internals {
+		const internals = manager as unknown as Internals;
+		// Port 0 has nothing to wait for once stopped
+		for (const key of keys) { internals.processes.set(`${key.envId}:${key.kind}:${key.id}`, { key, localPort: 0 }); }
+		return internals;
+	}
+
+	test('switching stops the other environments of the group', async () => {
+		const { manager, lines } = createManager(envs);
+		const internals = running(manager, ssh('a', 'db'), ssh('a', 'api'), ssh('c', 'cache'));
+		await internals.switchExclusiveGroup(envs[1]);
+		assert.deepStrictEqual(manager.getRunningKeys(), [ssh('c', 'cache')]);
+		assert.deepStrictEqual(lines, ['Exclusive: switching cluster to b, stopping a.']);
+	});
+
+	test('nothing to stop for the running environment or one outside a group', async () => {
+		const { manager, lines } = createManager(envs);
+		const internals = running(manager, ssh('a', 'db'), ssh('c', 'cache'));
+		await internals.switchExclusiveGroup(envs[0]);
+		await internals.switchExclusiveGroup(envs[2]);
+		assert.strictEqual(manager.getRunningKeys().length, 2);
+		assert.deepStrictEqual(lines, []);
+	});
+
+	test('a start still under way in the group is stopped once it is up', async () => {
+		const { manager } = createManager(envs);
+		const internals = running(manager);
+		let finish!: () => void;
+		internals.starting.set('a:ssh:db', new Promise<void>(resolve => {
+			finish = () => {
+				running(manager, ssh('a', 'db'));
+				resolve();
+			};
+		}));
+		const switched = internals.switchExclusiveGroup(envs[1]);
+		finish();
+		await switched;
+		assert.deepStrictEqual(manager.getRunningKeys(), []);
+	});
+});
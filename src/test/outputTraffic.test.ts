@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { OutputTraffic, connectionEvent } from '../outputTraffic';
+
+suite('OutputTraffic', () => {
+	test('connections are counted from ssh debug output', () => {
+		assert.strictEqual(connectionEvent('ssh', 'debug1: Connection to port 3306 forwarding to db port 3306 requested.'), 'open');
+		assert.strictEqual(connectionEvent('socks', 'debug1: channel 3: free: direct-tcpip: listening port 1080 for example.com port 443, connect from 127.0.0.1 port 50000 to 127.0.0.1 port 1080, nchannels 4'), 'close');
+		assert.strictEqual(connectionEvent('k8s', 'debug1: Connection to port 3306 forwarding to db port 3306 requested.'), undefined);
+
+		const traffic = new OutputTraffic('ssh');
+		traffic.append('debug1: Connection to port 3306 forwarding to db port 3306 requested.\ndebug1: Connection to port 3306 forwa');
+		traffic.append('rding to db port 3306 requested.\ndebug1: channel 2: free: direct-tcpip: listening port 3306 for db port 3306, nchannels 3\n');
+		const stats = traffic.getStats();
+		assert.strictEqual(stats.totalConnections, 2);
+		assert.strictEqual(stats.activeConnections, 1);
+		assert.ok(stats.lastActivity !== undefined);
+	});
+
+	test('kubectl only reports connections being opened', () => {
+		const traffic = new OutputTraffic('k8s');
+		traffic.append('Forwarding from 127.0.0.1:8080 -> 80\nHandling connection for 8080\nHandling connection for 8080\n');
+		assert.deepStrictEqual({ ...traffic.getStats(), lastActivity: undefined }, { totalConnections: 2, lastActivity: undefined });
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import { ConfigProblem, validateConfigFiles, validateConfigText } from '../validation';
+
+const context = { userHome: '/home/me', env: {} };
+
+function messages(problems: ConfigProblem[]): string[] {
+	return problems.map(p => `${p.severity}: ${p.message}`);
+}
+
+function json(value: unknown): string {
+	return JSON.stringify(value, null, 2);
+}
+
+const tunnel = { id: 'db', title: 'MySQL', sshHost: 'bastion', localPort: 3306, remoteHost: 'db', remotePort: 3306 };
+const service = { id: 'api', title: 'API', namespace: 'app', serviceName: 'api', localPort: 8080, remotePort: 80 };
+
+suite('validateConfigText', () => {
+	test('a valid config has no problems', () => {
+		assert.deepStrictEqual(validateConfigText(json([{ id: 'dev', name: 'Dev', sshTunnels: [tunnel], k8sForwards: [service] }])), []);
+		assert.deepStrictEqual(validateConfigText(json({ environments: [], profiles: [] })), []);
+	});
+
+	test('comments are invalid JSON', () => {
+		const problems = validateConfigText('[\n  // dev\n]');
+		assert.deepStrictEqual(messages(problems), ['error: Invalid JSON: InvalidCommentToken']);
+		assert.strictEqual(problems[0].offset, 4);
+	});
+
+	test('missing lists and fields', () => {
+		const text = json([{ id: 'dev', name: 'Dev', sshTunnels: [{ id: 'db', title: 'MySQL', sshHost: 'bastion', localPort: 3306 }] }]);
+		const problems = validateConfigText(text);
+		assert.deepStrictEqual(messages(problems), [
+			'error: Env Dev ssh:db: missing \'remoteHost\'',
+			'error: Env Dev ssh:db: missing \'remotePort\'',
+			'error: Env Dev: missing \'k8sForwards\' (use [] when empty)'
+		]);
+		// Missing fields point at the forward, missing lists at the environment
+		assert.strictEqual(text[problems[0].offset], '{');
+		assert.strictEqual(problems[0].length, 1);
+	});
+
+	test('invalid ports and duplicate ids', () => {
+		const text = json([
+			{ id: 'dev', name: 'Dev', sshTunnels: [{ ...tunnel, localPort: 'x', remotePort: 70000 }], k8sForwards: [{ ...service, remotePort: 'http' }] },
+			{ id: 'dev', name: 'Again', sshTunnels: [], k8sForwards: [] }
+		]);
+		const problems = validateConfigText(text);
+		assert.deepStrictEqual(messages(problems), [
+			'error: Env Dev ssh:db: \'localPort\' must be a port, "auto" or a range such as "20000-20100"',
+			'error: Env Dev ssh:db: \'remotePort\' must be an integer between 1 and 65535',
+			'error: Env Again: duplicate environment id \'dev\''
+		]);
+		// Problems on a property point at its name
+		assert.strictEqual(text.slice(problems[1].offset, problems[1].offset + problems[1].length), '"remotePort"');
+	});
+
+	test('duplicate local ports and unknown dependencies', () => {
+		const text = json([{ id: 'dev', name: 'Dev', sshTunnels: [{ ...tunnel, dependsOn: ['cache'] }], k8sForwards: [{ ...service, localPort: 3306 }] }]);
+		assert.deepStrictEqual(messages(validateConfigText(text)), [
+			'error: Env Dev ssh:db: dependsOn \'cache\' is not a forward of this environment',
+			'error: Env Dev: localPort 3306 used by ssh:db, k8s:api',
+			'error: Env Dev: localPort 3306 used by ssh:db, k8s:api'
+		]);
+	});
+
+	test('environments overlaid by the other file may be partial', () => {
+		const text = json({ environments: [{ id: 'dev', sshTunnels: [] }], extra: 1 });
+		assert.deepStrictEqual(messages(validateConfigText(text, { overlaidIds: ['dev'] })), [
+			'warning: Unknown property \'extra\' (expected environments or profiles)'
+		]);
+		assert.deepStrictEqual(messages(validateConfigText(text)), [
+			'warning: Unknown property \'extra\' (expected environments or profiles)',
+			'error: Env dev: missing \'name\'',
+			'error: Env dev: missing \'k8sForwards\' (use [] when empty)'
+		]);
+	});
+});
+
+suite('validateConfigFiles', () => {
+	test('problems are reported per file, a missing file has none', () => {
+		const problems = validateConfigFiles([undefined, json([{ id: 'dev', name: 'Dev', sshTunnels: [tunnel] }])], context);
+		assert.deepStrictEqual(problems.map(messages), [[], ['error: Env Dev: missing \'k8sForwards\' (use [] when empty)']]);
+	});
+
+	test('a partial environment in the workspace file is checked once merged', () => {
+		const problems = validateConfigFiles([
+			json([{ id: 'dev', name: 'Dev', sshTunnels: [tunnel], k8sForwards: [] }]),
+			json([{ id: 'dev', sshTunnels: [{ id: 'db', localPort: 13306 }] }])
+		], context);
+		assert.deepStrictEqual(problems.map(messages), [[], []]);
+	});
+
+	test('resolved environments are checked against the file that defines them', () => {
+		const base = json({ environments: [
+			{ id: 'base', abstract: true, name: 'Base', exclusiveGroup: 'g', sshTunnels: [tunnel], k8sForwards: [] },
+			{ id: 'other', name: 'Other', exclusiveGroup: 'g', sshTunnels: [], k8sForwards: [service] }
+		] });
+		const workspace = json({
+			environments: [{ id: 'dev', extends: 'base', sshTunnels: [{ id: 'db', remoteHost: '${var:host}' }] }],
+			profiles: [{ id: 'p', forwards: ['dev/db', 'other/api', 'dev/cache'] }]
+		});
+		const [baseProblems, workspaceProblems] = validateConfigFiles([base, workspace], context);
+		assert.deepStrictEqual(messages(baseProblems), []);
+		assert.deepStrictEqual(messages(workspaceProblems), [
+			'error: Env dev: unknown variable \'host\'',
+			'warning: Profile p: dev and other are in exclusive group \'g\' and can\'t run together',
+			'error: Profile p: Unknown forward \'dev/cache\''
+		]);
+		assert.strictEqual(workspace.slice(workspaceProblems[0].offset, workspaceProblems[0].offset + workspaceProblems[0].length), '"remoteHost"');
+	});
+});
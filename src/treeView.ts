@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { EnvironmentConfig, ForwardKey, K8sForward, RemoteForward, SocksProxy, SshTunnel, findForwardItem, forwardKeysOf, k8sTargetLabel } from './config';
+import { ForwardManager } from './forwardManager';
+import { formatStats } from './details';
+
+export type ForwardTreeNode =
+  | { type: 'env'; env: EnvironmentConfig }
+  | { type: 'forward'; env: EnvironmentConfig; key: ForwardKey };
+
+// Activity Bar view: environments -> forwards, with their current state
+export class ForwardTreeProvider implements vscode.TreeDataProvider<ForwardTreeNode>, vscode.Disposable {
+  static readonly viewId = 'localDependencyForwarder.forwards';
+  private onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private subscriptions: vscode.Disposable[];
+
+  constructor(private manager: ForwardManager) {
+    this.subscriptions = [
+      this.onDidChangeTreeDataEmitter,
+      manager.onDidChange(() => this.onDidChangeTreeDataEmitter.fire()),
+      manager.onDidChangeEnvironments(() => this.onDidChangeTreeDataEmitter.fire())
+    ];
+  }
+
+  public getChildren(node?: ForwardTreeNode): ForwardTreeNode[] {
+    if (!node) {
+      return this.manager.getEnvironments().map(env => ({ type: 'env', env }));
+    }
+    if (node.type === 'env') {
+      return forwardKeysOf(node.env).map(key => ({ type: 'forward', env: node.env, key }));
+    }
+    return [];
+  }
+
+  public getTreeItem(node: ForwardTreeNode): vscode.TreeItem {
+    if (node.type === 'env') {
+      const keys = forwardKeysOf(node.env);
+      const up = keys.filter(k => this.manager.isRunning(k)).length;
+      const item = new vscode.TreeItem(node.env.name, vscode.TreeItemCollapsibleState.Expanded);
+      item.id = node.env.id;
+      item.description = `${up}/${keys.length} up`;
+      item.contextValue = up ? 'environment.running' : 'environment.stopped';
+      return item;
+    }
+
+    const { env, key } = node;
+    const id = `${key.envId}:${key.kind}:${key.id}`;
+    const forward = findForwardItem(env, key);
+    const label = forward ? forward.title || forward.id : key.id;
+    let description: string | undefined;
+    if (forward) {
+      const port = this.manager.getLocalPort(key) ?? forward.localPort;
+      if (key.kind === 'ssh') {
+        const t = forward as SshTunnel;
+        description = `${port} → ${t.remoteHost}:${t.remotePort} via ${t.sshHost}`;
+      } else if (key.kind === 'k8s') {
+        const f = forward as K8sForward;
+        description = `${port} → ${k8sTargetLabel(f)}:${f.remotePort}`;
+      } else if (key.kind === 'socks') {
+        description = `${port} → SOCKS via ${(forward as SocksProxy).sshHost}`;
+      } else {
+        const r = forward as RemoteForward;
+        description = `${r.sshHost}:${r.remotePort} → ${r.localHost ?? 'localhost'}:${r.localPort}`;
+      }
+    }
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    item.id = id;
+    item.description = description;
+    item.command = { command: 'local-dependency-forwarder.showDetails', title: 'Show Details', arguments: [key] };
+
+    const reconnecting = this.manager.getReconnecting().find(r => r.key === id);
+    const failure = this.manager.getFailed().find(f => f.key === id);
+    if (reconnecting) {
+      item.iconPath = new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.yellow'));
+      item.tooltip = `${id}: reconnecting (attempt ${reconnecting.attempt})${reconnecting.reason ? `: ${reconnecting.reason}` : ''}`;
+      item.contextValue = 'forward.running';
+    } else if (this.manager.isRunning(key)) {
+      const health = this.manager.getHealthOf(key);
+      const unhealthy = health && !health.ok;
+      item.iconPath = unhealthy
+        ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'))
+        : new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('charts.green'));
+      const stats = this.manager.getStats(key);
+      item.tooltip = `${id}: ${unhealthy ? 'unhealthy' : 'running'}${health ? ` (${health.detail})` : ''}${stats ? `\n${formatStats(stats)}` : ''}`;
+      item.contextValue = 'forward.running';
+    } else if (failure) {
+      item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+      item.tooltip = `${id}: failed (${failure.reason})`;
+      item.contextValue = 'forward.failed';
+    } else {
+      item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+      item.tooltip = `${id}: stopped`;
+      item.contextValue = 'forward.stopped';
+    }
+    return item;
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions) { d.dispose(); }
+  }
+}
@@ -0,0 +1,620 @@
+import { Node, ParseError, findNodeAtLocation, findNodeAtOffset, getNodePath, getNodeValue, parseTree, printParseErrorCode } from 'jsonc-parser';
+import { EnvironmentConfig, ForwardKey, ForwardKind, HostKeyPolicy, LocalPort, ProbeType, RemoteForward, forwardLists, parseLocalPort, resolveForwardRef, resolveForwardTargets } from './config';
+import { ResolveContext, configVariableNames, defaultableFields, hasConfigVariables, resolveEnvironments } from './configResolver';
+import { envTemplateVariables, unknownTemplateVariables } from './envTemplates';
+
+export type ConfigProblem = {
+  message: string;
+  severity: 'error' | 'warning';
+  // Character range in the config text the problem points at
+  offset: number;
+  length: number;
+};
+
+export type DuplicatePort = {
+  envIndex: number;
+  port: number;
+  entries: { kind: ForwardKind; index: number; id: string }[];
+};
+
+// Local ports used by more than one forward within the same environment; remote forwards don't listen locally
+export function findDuplicatePorts(envs: EnvironmentConfig[]): DuplicatePort[] {
+  const result: DuplicatePort[] = [];
+  envs.forEach((env, envIndex) => {
+    const seen = new Map<number, DuplicatePort['entries']>();
+    const add = (port: LocalPort, entry: DuplicatePort['entries'][number]) => {
+      // auto/range ports are picked at start time and never clash
+      if (typeof port !== 'number') { return; }
+      const list = seen.get(port) ?? [];
+      list.push(entry);
+      seen.set(port, list);
+    };
+    (env.sshTunnels || []).forEach((t, index) => add(t.localPort, { kind: 'ssh', index, id: t.id }));
+    (env.k8sForwards || []).forEach((f, index) => add(f.localPort, { kind: 'k8s', index, id: f.id }));
+    (env.socksProxies || []).forEach((p, index) => add(p.localPort, { kind: 'socks', index, id: p.id }));
+    for (const [port, entries] of seen.entries()) {
+      if (entries.length > 1) { result.push({ envIndex, port, entries }); }
+    }
+  });
+  return result;
+}
+
+const sshRequired = ['id', 'title', 'localPort', 'remoteHost', 'remotePort', 'sshHost'];
+const k8sRequired = ['id', 'title', 'namespace', 'localPort', 'remotePort'];
+const socksRequired = ['id', 'title', 'localPort', 'sshHost'];
+const remoteRequired = ['id', 'title', 'remotePort', 'localPort', 'sshHost'];
+// Settings of local listeners that mean nothing for a remote forward
+const localOnlyFields = ['proxy', 'portFallback', 'probe', 'bindAddress'];
+const k8sTargetKinds = ['service', 'deployment', 'statefulset', 'pod', 'selector'];
+const portFields = ['localPort', 'remotePort'];
+const hostKeyPolicies: readonly HostKeyPolicy[] = ['strict', 'accept-new', 'off'];
+const rootProperties = ['$schema', 'environments', 'profiles'];
+
+export type ValidateOptions = {
+  // Ids of environments the other config file defines too; they are merged, so neither part has to be complete
+  overlaidIds?: string[];
+};
+
+export function validateConfigText(text: string, options: ValidateOptions = {}): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+  const errors: ParseError[] = [];
+  // The loader uses JSON.parse, so comments are reported as errors too
+  const root = parseTree(text, errors, { disallowComments: true, allowTrailingComma: false });
+  for (const e of errors) {
+    problems.push({ message: `Invalid JSON: ${printParseErrorCode(e.error)}`, severity: 'error', offset: e.offset, length: Math.max(e.length, 1) });
+  }
+  if (!root || errors.length) { return problems; }
+
+  const at = (node: Node, message: string, severity: ConfigProblem['severity'] = 'error') => {
+    problems.push({ message, severity, ...rangeOf(node) });
+  };
+
+  let envsRoot = root;
+  if (root.type === 'object') {
+    for (const prop of root.children || []) {
+      const name = prop.children?.[0];
+      if (name && !rootProperties.includes(name.value)) { at(name, `Unknown property '${name.value}' (expected environments or profiles)`, 'warning'); }
+    }
+    checkProfiles(root, at);
+    const environments = findNodeAtLocation(root, ['environments']);
+    // A file may only hold profiles for the environments of the other file
+    if (!environments) { return problems; }
+    envsRoot = environments;
+  }
+  if (envsRoot.type !== 'array') {
+    at(envsRoot, envsRoot === root ? 'Config must be an array of environments, or an object with environments and profiles' : `'environments' must be an array`);
+    return problems;
+  }
+
+  const envIds = new Map<string, number>();
+  (envsRoot.children || []).forEach((envNode, envIndex) => {
+    if (envNode.type !== 'object') {
+      at(envNode, 'Environment must be an object');
+      return;
+    }
+    const label = stringProp(envNode, 'name') ?? stringProp(envNode, 'id') ?? `#${envIndex}`;
+    const id = stringProp(envNode, 'id');
+    // Templated parts are only complete once resolved; validateConfigFiles() checks the result
+    const partial = isTemplated(envNode) || (id !== undefined && !!options.overlaidIds?.includes(id));
+    checkRequiredStrings(envNode, partial ? ['id'] : ['id', 'name'], `Env ${label}`, at);
+    if (id !== undefined) {
+      if (envIds.has(id)) { at(findNodeAtLocation(envNode, ['id'])!, `Env ${label}: duplicate environment id '${id}'`); }
+      envIds.set(id, envIndex);
+    }
+    checkRestart(envNode, `Env ${label}`, at);
+    checkBoolean(envNode, 'proxy', `Env ${label}`, at);
+    checkBoolean(envNode, 'portFallback', `Env ${label}`, at);
+    checkBoolean(envNode, 'multiplex', `Env ${label}`, at);
+    const policy = findNodeAtLocation(envNode, ['hostKeyPolicy']);
+    if (policy && !hostKeyPolicies.includes(getNodeValue(policy))) { at(policy, `Env ${label}: hostKeyPolicy must be one of ${hostKeyPolicies.join(', ')}`); }
+    const group = findNodeAtLocation(envNode, ['exclusiveGroup']);
+    if (group && (group.type !== 'string' || !group.value)) { at(group, `Env ${label}: exclusiveGroup must be a non-empty string`); }
+    checkTemplating(envNode, `Env ${label}`, at);
+
+    const lists = [['sshTunnels', 'ssh', sshRequired], ['k8sForwards', 'k8s', k8sRequired], ['socksProxies', 'socks', socksRequired], ['remoteForwards', 'remote', remoteRequired]] as const;
+    for (const [listName, kind, required] of lists) {
+      const listNode = findNodeAtLocation(envNode, [listName]);
+      // The SOCKS and remote lists are optional, and so is anything a templated environment inherits
+      if (!listNode && (kind === 'socks' || kind === 'remote' || partial)) { continue; }
+      if (!listNode) {
+        at(envNode, `Env ${label}: missing '${listName}' (use [] when empty)`);
+        continue;
+      }
+      if (listNode.type !== 'array') {
+        at(listNode, `Env ${label}: '${listName}' must be an array`);
+        continue;
+      }
+      const itemIds = new Set<string>();
+      (listNode.children || []).forEach((itemNode, index) => {
+        if (itemNode.type !== 'object') {
+          at(itemNode, `Env ${label}: ${kind} entry must be an object`);
+          return;
+        }
+        const itemId = stringProp(itemNode, 'id');
+        const where = `Env ${label} ${kind}:${itemId ?? `#${index}`}`;
+        const fields = partial ? required.filter(f => f === 'id' || findNodeAtLocation(itemNode, [f])) : required;
+        checkRequiredStrings(itemNode, fields.filter(f => !portFields.includes(f)), where, at);
+        for (const field of portFields.filter(f => fields.includes(f))) {
+          const portNode = findNodeAtLocation(itemNode, [field]);
+          // kubectl also accepts named ports (e.g. http) on the remote side
+          const named = kind === 'k8s' && field === 'remotePort';
+          if (!portNode) {
+            at(itemNode, `${where}: missing '${field}'`);
+          } else if (portNode.type === 'string' && hasConfigVariables(portNode.value)) {
+            // Checked once the variables are filled in
+          } else if (field === 'localPort' && portNode.type === 'string' && kind !== 'remote') {
+            if (!parseLocalPort(portNode.value)) { at(portNode, `${where}: 'localPort' must be a port, "auto" or a range such as "20000-20100"`); }
+          } else if (named && portNode.type === 'string') {
+            if (!/^[a-z0-9]([a-z0-9-]{0,13}[a-z0-9])?$/.test(portNode.value)) { at(portNode, `${where}: '${field}' is not a valid named port`); }
+          } else if (!isValidPort(getNodeValue(portNode))) {
+            at(portNode, `${where}: '${field}' must be an integer between 1 and 65535${named ? ' or a named port' : ''}`);
+          }
+        }
+        if (kind === 'k8s') { checkK8sTarget(itemNode, where, partial, at); }
+        if (kind !== 'k8s') { checkSshConnection(itemNode, where, at); }
+        if (kind === 'remote') {
+          for (const field of localOnlyFields) {
+            const fieldNode = findNodeAtLocation(itemNode, [field]);
+            if (fieldNode) { at(fieldNode, `${where}: '${field}' has no effect on remote forwards`, 'warning'); }
+          }
+        }
+        if (itemId !== undefined) {
+          if (itemIds.has(itemId)) { at(findNodeAtLocation(itemNode, ['id'])!, `${where}: duplicate id '${itemId}'`); }
+          itemIds.add(itemId);
+        }
+        checkRestart(itemNode, where, at);
+        checkBoolean(itemNode, 'proxy', where, at);
+        checkBoolean(itemNode, 'portFallback', where, at);
+        checkReadiness(itemNode, where, at);
+        checkProbe(itemNode, where, at);
+        checkEnvTemplates(itemNode, where, at);
+      });
+    }
+    if (!partial) { checkDependencies(envNode, `Env ${label}`, at); }
+  });
+
+  const envs = getNodeValue(envsRoot) as EnvironmentConfig[];
+  for (const dup of findDuplicatePorts(envs)) {
+    const env = envs[dup.envIndex];
+    const labels = dup.entries.map(e => `${e.kind}:${e.id}`).join(', ');
+    for (const e of dup.entries) {
+      const node = findNodeAtLocation(envsRoot, [dup.envIndex, forwardLists[e.kind], e.index, 'localPort']);
+      if (node) { at(node, `Env ${env.name}: localPort ${dup.port} used by ${labels}`); }
+    }
+  }
+  envs.forEach((env, envIndex) => checkRemoteDuplicates(envsRoot, env, envIndex, at));
+  return problems;
+}
+
+// Remote forwards of one environment can't listen on the same port of the same ssh host
+function checkRemoteDuplicates(root: Node, env: EnvironmentConfig, envIndex: number, at: (node: Node, message: string) => void) {
+  const seen = new Map<string, RemoteForward[]>();
+  const list = Array.isArray(env.remoteForwards) ? env.remoteForwards : [];
+  for (const r of list) {
+    if (!r || typeof r !== 'object' || !isValidPort(r.remotePort)) { continue; }
+    const id = `${r.sshHost}:${r.port ?? ''}:${r.remotePort}`;
+    seen.set(id, [...seen.get(id) ?? [], r]);
+  }
+  for (const same of seen.values()) {
+    if (same.length < 2) { continue; }
+    const labels = same.map(r => `remote:${r.id}`).join(', ');
+    for (const r of same) {
+      const node = findNodeAtLocation(root, [envIndex, 'remoteForwards', list.indexOf(r), 'remotePort']);
+      if (node) { at(node, `Env ${env.name}: remote port ${r.remotePort} on ${r.sshHost} used by ${labels}`); }
+    }
+  }
+}
+
+// Templated environments can be incomplete in their file; each is checked as resolved, against the file that defines it last
+export function validateConfigFiles(texts: (string | undefined)[], context: ResolveContext): ConfigProblem[][] {
+  const roots = texts.map(text => {
+    const errors: ParseError[] = [];
+    const root = text === undefined ? undefined : parseTree(text, errors, { disallowComments: true, allowTrailingComma: false });
+    return errors.length || (root?.type !== 'array' && root?.type !== 'object') ? undefined : root;
+  });
+  const envRoots = roots.map(root => {
+    const node = root?.type === 'object' ? findNodeAtLocation(root, ['environments']) : root;
+    return node?.type === 'array' ? node : undefined;
+  });
+  const envNodes = envRoots.map(envsRoot => new Map((envsRoot?.children || []).filter(n => n.type === 'object').map(n => [stringProp(n, 'id'), n] as const)));
+  const problems = texts.map((text, i) => {
+    if (text === undefined) { return []; }
+    const overlaidIds = envNodes.flatMap((nodes, j) => j === i ? [] : [...nodes.keys()].filter((id): id is string => id !== undefined));
+    return validateConfigText(text, { overlaidIds });
+  });
+  // Broken files are reported as they are; resolving them would only add noise
+  if (texts.some((text, i) => text !== undefined && !roots[i])) { return problems; }
+
+  const templated = new Set<string>();
+  envNodes.forEach(nodes => nodes.forEach((node, id) => {
+    if (id === undefined) { return; }
+    const usesVariables = hasConfigVariables(JSON.stringify(getNodeValue(node)));
+    if (isTemplated(node) || usesVariables || envNodes.filter(other => other.has(id)).length > 1) { templated.add(id); }
+  }));
+  const { envs, problems: resolveProblems } = resolveEnvironments(envRoots.map(envsRoot => envsRoot && getNodeValue(envsRoot)), context);
+  const ownCounts = problems.map(list => list.length);
+  const report = (envId: string, path: (string | number)[], message: string, severity: ConfigProblem['severity']) => {
+    const env = envs.find(e => e.id === envId);
+    const forwardId = forwardIdAt(env, path);
+    const files = envNodes.map((nodes, i) => nodes.has(envId) ? i : -1).filter(i => i >= 0);
+    // Prefer the last file that has the forward itself
+    const file = files.filter(i => forwardId === undefined || findForwardNode(envNodes[i].get(envId)!, path[0] as string, forwardId)).pop() ?? files.pop();
+    if (file === undefined) { return; }
+    const range = rangeOf(locate(envNodes[file].get(envId)!, forwardId, path));
+    // Already reported by the file's own checks
+    if (problems[file].slice(0, ownCounts[file]).some(p => p.offset === range.offset)) { return; }
+    problems[file].push({ message, severity, ...range });
+  };
+  for (const p of resolveProblems) { report(p.envId, p.path, p.message, p.severity); }
+
+  const resolvedText = JSON.stringify(envs);
+  const resolvedRoot = parseTree(resolvedText)!;
+  for (const p of validateConfigText(resolvedText)) {
+    const path = getNodePath(findNodeAtOffset(resolvedRoot, p.offset, true) ?? resolvedRoot);
+    const env = typeof path[0] === 'number' ? envs[path[0]] : undefined;
+    if (env && templated.has(env.id)) { report(env.id, path.slice(1), p.message, p.severity); }
+  }
+
+  // Profiles may pick forwards from either file, so their references are checked against the merged environments
+  roots.forEach((root, file) => {
+    const list = root?.type === 'object' ? findNodeAtLocation(root, ['profiles']) : undefined;
+    for (const profileNode of list?.type === 'array' ? list.children || [] : []) {
+      const forwards = profileNode.type === 'object' ? findNodeAtLocation(profileNode, ['forwards']) : undefined;
+      const where = `Profile ${stringProp(profileNode, 'id') ?? '?'}`;
+      // Environment picked first per exclusive group; a second one would stop it again
+      const groups = new Map<string, string>();
+      for (const refNode of forwards?.type === 'array' ? forwards.children || [] : []) {
+        if (refNode.type !== 'string') { continue; }
+        let keys: ForwardKey[];
+        try {
+          keys = resolveForwardTargets(envs, [refNode.value]);
+        } catch (e: any) {
+          problems[file].push({ message: `${where}: ${e.message}`, severity: 'error', ...rangeOf(refNode) });
+          continue;
+        }
+        const group = envs.find(e => e.id === keys[0]?.envId)?.exclusiveGroup;
+        if (!group) { continue; }
+        const first = groups.get(group) ?? keys[0].envId;
+        groups.set(group, first);
+        if (first !== keys[0].envId) {
+          problems[file].push({ message: `${where}: ${first} and ${keys[0].envId} are in exclusive group '${group}' and can't run together`, severity: 'warning', ...rangeOf(refNode) });
+        }
+      }
+    }
+  });
+  return problems;
+}
+
+// Shape of the profiles list; what the references point at is checked by validateConfigFiles()
+function checkProfiles(root: Node, at: (node: Node, message: string, severity?: ConfigProblem['severity']) => void) {
+  const list = findNodeAtLocation(root, ['profiles']);
+  if (!list) { return; }
+  if (list.type !== 'array') {
+    at(list, `'profiles' must be an array`);
+    return;
+  }
+  const ids = new Set<string>();
+  (list.children || []).forEach((node, index) => {
+    if (node.type !== 'object') {
+      at(node, 'Profile must be an object');
+      return;
+    }
+    const id = stringProp(node, 'id');
+    const where = `Profile ${id ?? `#${index}`}`;
+    checkRequiredStrings(node, ['id'], where, at);
+    if (id !== undefined) {
+      if (ids.has(id)) { at(findNodeAtLocation(node, ['id'])!, `${where}: duplicate profile id '${id}'`); }
+      ids.add(id);
+    }
+    const name = findNodeAtLocation(node, ['name']);
+    if (name && name.type !== 'string') { at(name, `${where}: 'name' must be a string`); }
+    const forwards = findNodeAtLocation(node, ['forwards']);
+    if (!forwards) {
+      at(node, `${where}: missing 'forwards'`);
+    } else if (forwards.type !== 'array' || (forwards.children || []).some(c => c.type !== 'string')) {
+      at(forwards, `${where}: 'forwards' must be an array of references such as "dev", "dev/db" or "dev:k8s:api"`);
+    } else if (!forwards.children?.length) {
+      at(forwards, `${where}: no forwards listed`, 'warning');
+    }
+  });
+}
+
+// Id of the forward a path in a resolved environment points into, e.g. ['sshTunnels', 0, 'sshHost']
+function forwardIdAt(env: EnvironmentConfig | undefined, path: (string | number)[]): string | undefined {
+  const [list, index] = path;
+  if (!env || typeof list !== 'string' || typeof index !== 'number' || !Object.values(forwardLists).includes(list as never)) { return undefined; }
+  const id = ((env as Record<string, unknown>)[list] as { id?: unknown }[] | undefined)?.[index]?.id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function findForwardNode(envNode: Node, list: string, id: string): Node | undefined {
+  return (findNodeAtLocation(envNode, [list])?.children || []).find(n => stringProp(n, 'id') === id);
+}
+
+// The node in an environment's file that a path in the resolved environment comes from, or its nearest ancestor;
+// forwards are matched by id, since merging can change their position
+function locate(envNode: Node, forwardId: string | undefined, path: (string | number)[]): Node {
+  let node = envNode;
+  let rest = path;
+  if (forwardId !== undefined) {
+    const item = findForwardNode(envNode, path[0] as string, forwardId);
+    // An inherited forward has nothing to point at here but the extends
+    if (!item) { return findNodeAtLocation(envNode, ['extends']) ?? findNodeAtLocation(envNode, ['id']) ?? envNode; }
+    node = item;
+    rest = path.slice(2);
+  }
+  for (const segment of rest) {
+    const child = findNodeAtLocation(node, [segment]);
+    if (!child) { break; }
+    node = child;
+  }
+  return node === envNode ? findNodeAtLocation(envNode, ['id']) ?? envNode : node;
+}
+
+function rangeOf(node: Node): { offset: number; length: number } {
+  // Point at the property name when there is one, it reads better than a whole object
+  const target = node.parent?.type === 'property' ? node.parent.children?.[0] ?? node : node;
+  // Objects and arrays span many lines; only mark their opening bracket
+  const length = target.type === 'object' || target.type === 'array' ? 1 : target.length;
+  return { offset: target.offset, length };
+}
+
+function isTemplated(envNode: Node): boolean {
+  return ['extends', 'defaults', 'abstract'].some(field => findNodeAtLocation(envNode, [field]));
+}
+
+function checkTemplating(envNode: Node, where: string, at: (node: Node, message: string, severity?: ConfigProblem['severity']) => void) {
+  const parent = findNodeAtLocation(envNode, ['extends']);
+  if (parent && (parent.type !== 'string' || !parent.value)) { at(parent, `${where}: 'extends' must be the id of another environment`); }
+  checkBoolean(envNode, 'abstract', where, at);
+  const defaults = findNodeAtLocation(envNode, ['defaults']);
+  if (defaults && defaults.type !== 'object') {
+    at(defaults, `${where}: 'defaults' must be an object of forward settings`);
+  } else if (defaults) {
+    const known = new Set(Object.values(defaultableFields).flat());
+    for (const prop of defaults.children || []) {
+      const nameNode = prop.children?.[0];
+      if (nameNode && !known.has(nameNode.value)) { at(nameNode, `${where}: '${nameNode.value}' can't have a default`, 'warning'); }
+    }
+  }
+  const variables = findNodeAtLocation(envNode, ['variables']);
+  if (variables && variables.type !== 'object') {
+    at(variables, `${where}: 'variables' must be an object of name to string`);
+  } else if (variables) {
+    for (const prop of variables.children || []) {
+      const [nameNode, valueNode] = prop.children || [];
+      if (!nameNode || !valueNode) { continue; }
+      if (!/^[A-Za-z_][\w.-]*$/.test(nameNode.value)) { at(nameNode, `${where}: '${nameNode.value}' is not a valid variable name`); }
+      if (valueNode.type !== 'string') { at(valueNode, `${where}: variable ${nameNode.value} must be a string`); }
+    }
+  }
+}
+
+function stringProp(node: Node, name: string): string | undefined {
+  const child = findNodeAtLocation(node, [name]);
+  return child?.type === 'string' ? child.value : undefined;
+}
+
+function isValidPort(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 65535;
+}
+
+function checkRequiredStrings(node: Node, fields: readonly string[], where: string, at: (node: Node, message: string) => void) {
+  for (const field of fields) {
+    const child = findNodeAtLocation(node, [field]);
+    if (!child) {
+      at(node, `${where}: missing '${field}'`);
+    } else if (child.type !== 'string' || (field !== 'title' && field !== 'name' && !child.value)) {
+      at(child, `${where}: '${field}' must be a non-empty string`);
+    }
+  }
+}
+
+function checkRestart(node: Node, where: string, at: (node: Node, message: string) => void) {
+  const restart = findNodeAtLocation(node, ['restart']);
+  if (!restart) { return; }
+  if (restart.type !== 'object') {
+    at(restart, `${where}: 'restart' must be an object`);
+    return;
+  }
+  const mode = findNodeAtLocation(restart, ['mode']);
+  if (!mode || !['never', 'on-failure', 'always'].includes(getNodeValue(mode))) {
+    at(mode ?? restart, `${where}: restart mode must be one of never, on-failure, always`);
+  }
+  for (const field of ['maxRetries', 'initialDelayMs', 'maxDelayMs']) {
+    const child = findNodeAtLocation(restart, [field]);
+    const value = child ? getNodeValue(child) : undefined;
+    if (child && !(typeof value === 'number' && Number.isInteger(value) && value >= 0)) {
+      at(child, `${where}: restart ${field} must be a non-negative integer`);
+    }
+  }
+}
+
+function checkBoolean(node: Node, field: string, where: string, at: (node: Node, message: string) => void) {
+  const child = findNodeAtLocation(node, [field]);
+  if (child && child.type !== 'boolean') { at(child, `${where}: '${field}' must be true or false`); }
+}
+
+function checkK8sTarget(node: Node, where: string, partial: boolean, at: (node: Node, message: string) => void) {
+  const kindNode = findNodeAtLocation(node, ['targetKind']);
+  const kind = kindNode ? getNodeValue(kindNode) : 'service';
+  if (!k8sTargetKinds.includes(kind)) {
+    at(kindNode!, `${where}: targetKind must be one of ${k8sTargetKinds.join(', ')}`);
+    return;
+  }
+  if (partial) { return; }
+  const nonEmpty = (field: string) => {
+    const child = findNodeAtLocation(node, [field]);
+    return child?.type === 'string' && !!child.value;
+  };
+  if (kind === 'service' && !nonEmpty('serviceName') && !nonEmpty('target')) {
+    at(node, `${where}: missing 'serviceName'`);
+  } else if (kind === 'selector' && !nonEmpty('selector')) {
+    at(node, `${where}: missing 'selector' for targetKind selector`);
+  } else if (kind !== 'service' && kind !== 'selector' && !nonEmpty('target')) {
+    at(node, `${where}: missing 'target' for targetKind ${kind}`);
+  }
+  for (const field of ['kubectlContext', 'kubeconfig']) {
+    const child = findNodeAtLocation(node, [field]);
+    if (child && child.type !== 'string') { at(child, `${where}: '${field}' must be a string`); }
+  }
+}
+
+function checkSshConnection(node: Node, where: string, at: (node: Node, message: string) => void) {
+  for (const field of ['user', 'identityFile', 'bindAddress', 'remoteBindAddress', 'localHost']) {
+    const fieldNode = findNodeAtLocation(node, [field]);
+    if (fieldNode && (fieldNode.type !== 'string' || !fieldNode.value)) { at(fieldNode, `${where}: '${field}' must be a non-empty string`); }
+  }
+  checkBoolean(node, 'multiplex', where, at);
+  const port = findNodeAtLocation(node, ['port']);
+  if (port && !(port.type === 'string' && hasConfigVariables(port.value)) && !isValidPort(getNodeValue(port))) { at(port, `${where}: 'port' must be an integer between 1 and 65535`); }
+  const jumps = findNodeAtLocation(node, ['proxyJump']);
+  if (jumps && (jumps.type !== 'array' || (jumps.children || []).some(c => c.type !== 'string' || !c.value))) {
+    at(jumps, `${where}: 'proxyJump' must be an array of hosts such as user@bastion:22`);
+  }
+  const options = findNodeAtLocation(node, ['sshOptions']);
+  if (!options) { return; }
+  if (options.type !== 'object') {
+    at(options, `${where}: 'sshOptions' must be an object of ssh -o options`);
+    return;
+  }
+  for (const prop of options.children || []) {
+    const [nameNode, valueNode] = prop.children || [];
+    if (!nameNode || !valueNode) { continue; }
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(nameNode.value)) { at(nameNode, `${where}: '${nameNode.value}' is not an ssh option name`); }
+    if (!['string', 'number', 'boolean'].includes(valueNode.type) || /[\r\n]/.test(String(valueNode.value))) {
+      at(valueNode, `${where}: ssh option ${nameNode.value} must be a single-line string, number or boolean`);
+    }
+  }
+}
+
+function checkReadiness(node: Node, where: string, at: (node: Node, message: string) => void) {
+  const readiness = findNodeAtLocation(node, ['readiness']);
+  if (!readiness) { return; }
+  if (readiness.type !== 'object') {
+    at(readiness, `${where}: 'readiness' must be an object`);
+    return;
+  }
+  const timeout = findNodeAtLocation(readiness, ['timeoutMs']);
+  const value = timeout ? getNodeValue(timeout) : undefined;
+  if (timeout && !(typeof value === 'number' && Number.isInteger(value) && value >= 0)) {
+    at(timeout, `${where}: readiness timeoutMs must be a non-negative integer`);
+  }
+}
+
+const probeTypes: readonly ProbeType[] = ['tcp', 'banner', 'mysql', 'redis', 'amqp', 'http'];
+
+function checkProbe(node: Node, where: string, at: (node: Node, message: string) => void) {
+  const probe = findNodeAtLocation(node, ['probe']);
+  if (!probe) { return; }
+  if (probe.type !== 'object') {
+    at(probe, `${where}: 'probe' must be an object`);
+    return;
+  }
+  const typeNode = findNodeAtLocation(probe, ['type']);
+  const type = typeNode ? getNodeValue(typeNode) : undefined;
+  if (!typeNode || !probeTypes.includes(type)) {
+    at(typeNode ?? probe, `${where}: probe type must be one of ${probeTypes.join(', ')}`);
+  }
+  const timeout = findNodeAtLocation(probe, ['timeoutMs']);
+  const timeoutValue = timeout ? getNodeValue(timeout) : undefined;
+  if (timeout && !(typeof timeoutValue === 'number' && Number.isInteger(timeoutValue) && timeoutValue > 0)) {
+    at(timeout, `${where}: probe timeoutMs must be a positive integer`);
+  }
+  const status = findNodeAtLocation(probe, ['expectStatus']);
+  const statusValue = status ? getNodeValue(status) : undefined;
+  if (status && !(typeof statusValue === 'number' && Number.isInteger(statusValue) && statusValue >= 100 && statusValue <= 599)) {
+    at(status, `${where}: probe expectStatus must be an HTTP status code`);
+  }
+  for (const field of ['path', 'host', 'expect']) {
+    const fieldNode = findNodeAtLocation(probe, [field]);
+    if (fieldNode && fieldNode.type !== 'string') { at(fieldNode, `${where}: probe ${field} must be a string`); }
+  }
+  const path = findNodeAtLocation(probe, ['path']);
+  if (path?.type === 'string' && !String(getNodeValue(path)).startsWith('/')) {
+    at(path, `${where}: probe path must start with '/'`);
+  }
+}
+
+function checkEnvTemplates(node: Node, where: string, at: (node: Node, message: string, severity?: ConfigProblem['severity']) => void) {
+  const env = findNodeAtLocation(node, ['env']);
+  if (!env) { return; }
+  if (env.type !== 'object') {
+    at(env, `${where}: 'env' must be an object of variable name to template`);
+    return;
+  }
+  for (const prop of env.children || []) {
+    const [nameNode, valueNode] = prop.children || [];
+    if (!nameNode || !valueNode) { continue; }
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(nameNode.value)) { at(nameNode, `${where}: '${nameNode.value}' is not a valid environment variable name`); }
+    if (valueNode.type !== 'string') {
+      at(valueNode, `${where}: env ${nameNode.value} must be a string`);
+      continue;
+    }
+    const unknown = unknownTemplateVariables(valueNode.value).filter(name => !configVariableNames.includes(name));
+    if (unknown.length) {
+      at(valueNode, `${where}: env ${nameNode.value} uses unknown variable(s) ${unknown.map(v => '${' + v + '}').join(', ')}; known: ${envTemplateVariables.join(', ')}`, 'warning');
+    }
+  }
+}
+
+// dependsOn entries must name forwards of the same environment and must not form a cycle
+function checkDependencies(envNode: Node, where: string, at: (node: Node, message: string) => void) {
+  const env = getNodeValue(envNode) as EnvironmentConfig;
+  if (typeof env.id !== 'string' || !Array.isArray(env.sshTunnels) || !Array.isArray(env.k8sForwards)) { return; }
+  const edges = new Map<string, string[]>();
+  for (const [kind, listName] of Object.entries(forwardLists)) {
+    const listNode = findNodeAtLocation(envNode, [listName]);
+    (listNode?.children || []).forEach((itemNode, index) => {
+      const depsNode = findNodeAtLocation(itemNode, ['dependsOn']);
+      if (!depsNode) { return; }
+      const itemId = stringProp(itemNode, 'id') ?? `#${index}`;
+      if (depsNode.type !== 'array') {
+        at(depsNode, `${where} ${kind}:${itemId}: 'dependsOn' must be an array of forward ids`);
+        return;
+      }
+      const targets: string[] = [];
+      for (const refNode of depsNode.children || []) {
+        const ref = refNode.type === 'string' ? refNode.value as string : undefined;
+        const dep = ref !== undefined ? resolveForwardRef(env, ref) : undefined;
+        if (!dep) {
+          at(refNode, `${where} ${kind}:${itemId}: dependsOn '${ref ?? getNodeValue(refNode)}' is not a forward of this environment`);
+        } else if (dep.kind === kind && dep.id === itemId) {
+          at(refNode, `${where} ${kind}:${itemId}: a forward can't depend on itself`);
+        } else {
+          targets.push(`${dep.kind}:${dep.id}`);
+        }
+      }
+      edges.set(`${kind}:${itemId}`, targets);
+    });
+  }
+
+  // Report each cycle once, on the dependsOn of the forward where it was found
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string, path: string[]): string[] | undefined => {
+    if (state.get(id) === 'done') { return undefined; }
+    if (state.get(id) === 'visiting') { return [...path.slice(path.indexOf(id)), id]; }
+    state.set(id, 'visiting');
+    for (const next of edges.get(id) ?? []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) { return cycle; }
+    }
+    state.set(id, 'done');
+    return undefined;
+  };
+  for (const id of edges.keys()) {
+    const cycle = visit(id, []);
+    if (cycle) {
+      const split = cycle[0].indexOf(':');
+      const [kind, itemId] = [cycle[0].slice(0, split) as ForwardKind, cycle[0].slice(split + 1)];
+      const listNode = findNodeAtLocation(envNode, [forwardLists[kind]]);
+      const itemNode = (listNode?.children || []).find(n => stringProp(n, 'id') === itemId);
+      const depsNode = itemNode && findNodeAtLocation(itemNode, ['dependsOn']);
+      if (depsNode) { at(depsNode, `${where}: dependency cycle ${cycle.join(' -> ')}`); }
+    }
+    // A search that stopped at a cycle leaves nodes half-visited; they are handled either way
+    for (const [k, v] of state) {
+      if (v === 'visiting') { state.set(k, 'done'); }
+    }
+  }
+}